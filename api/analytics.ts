@@ -36,7 +36,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     console.log('SUPABASE_URL exists:', !!process.env.SUPABASE_URL);
     console.log('SUPABASE_SERVICE_ROLE_KEY exists:', !!process.env.SUPABASE_SERVICE_ROLE_KEY);
     
-    const { sessionId, event, anonUserId, payload }: AnalyticsEvent = req.body;
+    const { sessionId, event, anonUserId }: AnalyticsEvent = req.body;
 
     if (!sessionId || !event) {
       return res.status(400).json({ error: 'Missing required fields: sessionId, event' });
@@ -1,6 +1,30 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
+import {
+  SimulationInputs,
+  SimulationMetrics,
+  VariableCostItem,
+  VARIABLE_COST_ITEMS,
+  calculateMetrics,
+  getMarginStatus,
+  variableCostItems,
+} from '../src/model/economics';
+import { DEFAULT_INPUTS } from '../src/model/presets';
+import { DEFAULT_SENSITIVITY_INPUTS, rankBy, runSensitivity } from '../src/model/sensitivity';
+import { applicableParameters } from '../src/model/parameters';
+import { isInputField, validateInputs } from '../src/utils/validateInputs';
+import {
+  UnitSettings,
+  DEFAULT_UNITS,
+  inputsFromDisplay,
+  localizeLabel,
+  metricToDisplay,
+  toDisplay,
+  unitFormat,
+  validateUnits,
+  variableCostItemsToDisplay,
+} from '../src/utils/units';
 
 console.log("env check", {
   hasSupabaseUrl: !!process.env.SUPABASE_URL,
@@ -25,38 +49,26 @@ const openai = new OpenAI({
 interface ChatRequest {
   sessionId: string;
   userMessage: string;
-  simState: {
-    fleetSize: number;
-    vehiclesPerOperator: number;
-    vehicleCost: number;
-    opsHoursPerDay: number;
-    deadheadPercent: number;
-    variableCostPerMile: number;
-    revenuePerMile: number;
-    utilizationPercent: number;
+  simState: SimulationInputs & {
+    serviceMilesCapacity: number;
+    milesPerDay: number;
+    revenuePerPaidMile: number;
+    variableCostPerPaidMile: number;
+    // Per paid mile, by line item; only under itemized variable cost
+    variableCostItems?: Record<VariableCostItem, number>;
     totalCostPerMile: number;
     marginPerMile: number;
+    breakEvenUtilization: number | null;
+    fleetRevenuePerYear: number;
+    fleetContributionPerYear: number;
+    fleetProfitPerYear: number;
     status: string;
+    leverRanking: Array<{ input: string; marginSwing: number }>;
+    // Units of every money, distance and speed value above; US dollars and miles when absent
+    units?: UnitSettings;
   };
 }
 
-interface ChatResponse {
-  reply: string;
-  error?: string;
-}
-
-interface StructuredResponse {
-  headline: string;
-  insights: string[];
-  top_levers: Array<{
-    lever: string;
-    direction: string;
-    why: string;
-  }>;
-  recommended_next_change: string;
-  sanity_checks: string[];
-}
-
 // Rate limiting: 30 messages per day per sessionId
 async function checkRateLimit(sessionId: string): Promise<boolean> {
   const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
@@ -98,12 +110,53 @@ async function logChatEvent(
   }
 }
 
-// Safe formatting helper
+// Recompute model outputs server-side with the shared engine so the prompt never
+// relies on client-computed numbers. Inputs the client omitted fall back to defaults.
+// The model runs in dollars and miles; inputs arrive and outputs leave in the user's units.
+function withModelOutputs(simState: ChatRequest['simState'], units: UnitSettings): ChatRequest['simState'] {
+  const inputs = { ...DEFAULT_INPUTS, ...inputsFromDisplay(simState, units) };
+  const metrics = calculateMetrics(inputs);
+  const display = (metric: Exclude<keyof SimulationMetrics, 'breakEvenUtilizationPercent'>) => metricToDisplay(metric, metrics[metric], units);
+  // Lever ranking by margin/mile swing for ±10% on each input (same tornado as the app)
+  const leverRanking = rankBy(runSensitivity(inputs, DEFAULT_SENSITIVITY_INPUTS), 'marginPerMile')
+    .filter((row) => row.marginPerMile.swing > 0)
+    .slice(0, 5)
+    .map((row) => ({
+      input: localizeLabel(row.label, units),
+      marginSwing: toDisplay(row.marginPerMile.swing, 'money-per-distance', units),
+    }));
+  return {
+    ...simState,
+    serviceMilesCapacity: display('serviceMilesCapacity'),
+    milesPerDay: display('milesPerDay'),
+    revenuePerPaidMile: display('revenuePerPaidMile'),
+    variableCostPerPaidMile: display('variableCostPerPaidMile'),
+    variableCostItems: inputs.variableCostMode === 'itemized'
+      ? variableCostItemsToDisplay(variableCostItems(inputs), units)
+      : undefined,
+    totalCostPerMile: display('totalCostPerMile'),
+    marginPerMile: display('marginPerMile'),
+    breakEvenUtilization: metrics.breakEvenUtilizationPercent,
+    fleetRevenuePerYear: display('fleetRevenuePerYear'),
+    fleetContributionPerYear: display('fleetContributionPerYear'),
+    fleetProfitPerYear: display('fleetProfitPerYear'),
+    status: getMarginStatus(metrics.marginPerMile),
+    leverRanking,
+    units,
+  };
+}
+
+// Safe formatting helpers
 const fmt = (v: any, digits = 2) =>
   typeof v === "number" && Number.isFinite(v) ? v.toFixed(digits) : "n/a";
 
+const fmtMoney = (v: any, units: UnitSettings, digits = 2) =>
+  typeof v === "number" && Number.isFinite(v) ? unitFormat(units).money(v, digits) : "n/a";
+
 // Generate OpenAI response with streaming
 async function* generateStreamingResponse(userMessage: string, simState: any): AsyncGenerator<string, void, unknown> {
+  const units: UnitSettings = simState.units ?? DEFAULT_UNITS;
+  const distance = units.distance === 'km' ? 'km' : 'mile';
   try {
     const stream = await openai.chat.completions.create({
       model: 'gpt-4o-mini',
@@ -159,6 +212,7 @@ Hard constraints:
 • When margin < 0 and gap > 30 points: State explicitly "Incremental improvements are insufficient."
 • Marketing may only be suggested if: margin > 0 AND utilization is near break-even AND revenue per mile is stable
 • Lever types must be ONLY: Pricing, Fixed cost (vehicle/operator), Utilization, Deadhead, Variable cost
+• Rank levers using the computed lever ranking below (margin/mile swing for ±${DEFAULT_SENSITIVITY_INPUTS.percent}% on each input). Do not re-rank by intuition
 
 Avoid:
 • Generic advice
@@ -203,7 +257,15 @@ Avoid hedging language (may, could, potentially).
 Be decisive.
 If model is structurally stressed, say it clearly.
 
-Current state: Utilization=${simState.utilizationPercent}%, Margin=$${fmt(simState.marginPerMile)}, Break-even=${fmt(simState.breakEvenUtilization)}%, Deadhead=${simState.deadheadPercent}%, Vehicles/operator=${simState.vehiclesPerOperator}.
+7️⃣ Units
+The user works in ${units.currency}${units.currency === 'USD' ? '' : ` (1 USD = ${units.exchangeRate} ${units.currency})`} and ${units.distance === 'km' ? 'kilometres' : 'miles'}.
+Every money value in simState is in ${units.currency}, and every distance, speed and per-mile value (fields named *Miles*, *PerMile*, *Mph) is per ${distance} (km/h for speeds), whatever the field name says.
+Fuel economy (milesPerGallon) is in ${units.distance === 'km' ? 'km' : 'miles'} per US gallon; energy use (kwhPerMile) is kWh per ${distance}.
+Quote all numbers in these units, and say "per ${distance}".
+
+Current state: Utilization=${simState.utilizationPercent}%, Pricing=${simState.pricingMode ?? 'per-mile'} (revenue/paid ${distance}=${fmtMoney(simState.revenuePerPaidMile, units)}), Margin=${fmtMoney(simState.marginPerMile, units)}/${distance}, Break-even=${fmt(simState.breakEvenUtilization)}%, Deadhead=${simState.deadheadPercent}%, Vehicles/operator=${simState.vehiclesPerOperator}, Operator cost=${fmtMoney(simState.operatorCostPerHour, units)}/h, ${units.distance === 'km' ? 'Km' : 'Miles'}/day=${fmt(simState.milesPerDay, 0)} of ${fmt(simState.serviceMilesCapacity, 0)} capacity (${simState.mileageModel ?? 'fixed-cap'}), Depreciation=${simState.depreciationMethod ?? 'straight-line'}${simState.depreciationMethod === 'declining-balance' ? ` (vehicle age ${simState.vehicleAgeYears ?? 0} yrs)` : ''}, Variable cost=${fmtMoney(simState.variableCostPerPaidMile, units)}/paid ${distance}${simState.variableCostItems ? ` (itemized: ${(Object.keys(VARIABLE_COST_ITEMS) as VariableCostItem[]).map((item) => `${VARIABLE_COST_ITEMS[item]} ${fmtMoney(simState.variableCostItems[item], units)}`).join(', ')})` : ''}, Fleet size=${simState.fleetSize}, Fleet profit/yr=${fmtMoney(simState.fleetProfitPerYear, units, 0)}.
+
+Computed lever ranking: ${(simState.leverRanking ?? []).map((lever: { input: string; marginSwing: number }, i: number) => `${i + 1}. ${lever.input} (${fmtMoney(lever.marginSwing, units)}/${distance} swing)`).join(', ') || 'n/a'}.
 
 Internal consistency requirement (DO NOT OUTPUT):
 Before finalizing the answer:
@@ -267,19 +329,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(405).json({ error: 'Method not allowed' });
     }
 
-    const { sessionId, userMessage, simState = {} }: ChatRequest = req.body;
+    const { sessionId, userMessage, simState: requestState }: Partial<ChatRequest> = req.body;
+    // Anything may be missing until the checks below
+    const partialState: Partial<ChatRequest['simState']> = requestState ?? {};
 
-    const requiredFields = [
-      "utilizationPercent",
-      "deadheadPercent",
-      "vehicleCost",
-      "vehiclesPerOperator",
-      "opsHoursPerDay",
-      "variableCostPerMile",
-      "revenuePerMile",
-    ];
+    // Every registry input that applies under the request's modes (trip fares only with trip pricing, etc.)
+    const requiredFields = applicableParameters({ ...DEFAULT_INPUTS, ...partialState });
 
-    const missingFields = requiredFields.filter((k) => simState?.[k] === undefined || simState?.[k] === null);
+    const missingFields = requiredFields.filter((k) => partialState[k] === undefined || partialState[k] === null);
 
     if (missingFields.length > 0) {
       const reply = `missing: ${missingFields.join(", ")}`;
@@ -289,7 +346,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           session_id: sessionId ?? "missing",
           user_message: userMessage ?? "",
           assistant_message: reply,
-          sim_state: simState ?? {},
+          sim_state: partialState,
         });
         if (insertError) console.error("supabase insert", insertError);
       } catch (e) {
@@ -297,9 +354,25 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
       return res.status(200).json({ reply });
     }
+    // Every input the modes use is present from here on
+    const simState = partialState as ChatRequest['simState'];
+
+    const units = validateUnits(simState.units ?? DEFAULT_UNITS);
+    if (!units) {
+      return res.status(400).json({ error: 'Invalid simState: units must name a distance unit, a currency and a positive exchange rate.' });
+    }
+
+    // Same checks as share links and imported files: numbers within the slider ranges, known modes
+    const { warnings: invalidFields } = validateInputs(
+      Object.fromEntries(Object.entries(inputsFromDisplay(simState, units)).filter(([key]) => isInputField(key))),
+      DEFAULT_INPUTS
+    );
+    if (invalidFields.length > 0) {
+      return res.status(400).json({ error: `Invalid simState: ${invalidFields.join(' ')}` });
+    }
 
     // Validate required fields
-    if (!sessionId || !userMessage || !simState) {
+    if (!sessionId || !userMessage || !requestState) {
       return res.status(400).json({ error: 'Missing required fields: sessionId, userMessage, simState' });
     }
 
@@ -309,16 +382,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(429).json({ error: 'Rate limit exceeded. Maximum 30 messages per day.' });
     }
 
+    const modelState = withModelOutputs(simState, units);
+
     // Stream AI response
     let fullResponse = '';
     
-    for await (const chunk of generateStreamingResponse(userMessage, simState)) {
+    for await (const chunk of generateStreamingResponse(userMessage, modelState)) {
       fullResponse += chunk;
       res.write(chunk);
     }
     
     // Log the chat event with full response
-    await logChatEvent(sessionId, userMessage, fullResponse, simState);
+    await logChatEvent(sessionId, userMessage, fullResponse, modelState);
     
     res.end();
 
@@ -0,0 +1,107 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { SimulationInputs } from '../src/model/economics';
+import { DEFAULT_INPUTS } from '../src/model/presets';
+import { isInputField, validateInputs } from '../src/utils/validateInputs';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY");
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+interface TeamPresetRequest {
+  name: string;
+  description?: string;
+  author: string;
+  sourceNotes?: string;
+  inputs: Partial<SimulationInputs>;
+}
+
+// Longest free-text field we accept from the form
+const MAX_TEXT_LENGTH = 2000;
+
+const toTeamPreset = (row: any) => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  author: row.author,
+  sourceNotes: row.source_notes,
+  inputs: row.inputs,
+  createdAt: row.created_at,
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") {
+    return res.status(204).end();
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const { data, error } = await supabase
+        .from('team_presets')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Supabase select error:', error);
+        return res.status(500).json({ error: error.message });
+      }
+
+      return res.status(200).json({ presets: (data ?? []).map(toTeamPreset) });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { name, description = '', author, sourceNotes = '', inputs }: TeamPresetRequest = req.body;
+
+    if (!name?.trim() || !author?.trim() || typeof inputs !== 'object' || inputs === null) {
+      return res.status(400).json({ error: 'Missing required fields: name, author, inputs' });
+    }
+
+    if ([name, description, author, sourceNotes].some(text => String(text).length > MAX_TEXT_LENGTH)) {
+      return res.status(400).json({ error: `Text fields are limited to ${MAX_TEXT_LENGTH} characters` });
+    }
+
+    const unknownFields = Object.keys(inputs).filter(key => !isInputField(key));
+    if (unknownFields.length > 0) {
+      return res.status(400).json({ error: `Unknown inputs: ${unknownFields.join(', ')}` });
+    }
+
+    // Same checks as imported files: out-of-range values are clamped, bad values fall back to the defaults
+    const { inputs: validated, warnings } = validateInputs(inputs, DEFAULT_INPUTS);
+
+    const { data, error } = await supabase
+      .from('team_presets')
+      .insert({
+        name: name.trim(),
+        description: String(description).trim(),
+        author: author.trim(),
+        source_notes: String(sourceNotes).trim(),
+        inputs: validated,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Supabase insert error:', error);
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(200).json({ preset: toTeamPreset(data), warnings });
+
+  } catch (err: any) {
+    console.error('Presets route crash:', err);
+    return res.status(500).json({ error: 'server_error' });
+  }
+}
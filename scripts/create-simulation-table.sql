@@ -1,7 +1,7 @@
 -- =============================================================================
 -- Simulation Results Table
 -- =============================================================================
--- Run this in Supabase SQL Editor before running simulate-batch.mjs
+-- Run this in Supabase SQL Editor before running simulate-batch.ts
 -- This table stores batch simulation results for spreadsheet export & sanity checks.
 
 create table if not exists simulation_results (
@@ -18,13 +18,15 @@ create table if not exists simulation_results (
   vehicle_cost integer,
   ops_hours_per_day integer,
   deadhead_percent numeric,
-  variable_cost_per_mile numeric,
+  variable_cost_per_mile numeric,         -- per paid mile, flat or the itemized total
+  variable_cost_mode text,                 -- 'flat', 'itemized'
   revenue_per_mile numeric,
   utilization_percent numeric,
 
   -- Constants (for reference)
   operator_cost_per_hour numeric,          -- $40
-  vehicle_lifetime_days integer,           -- 1825
+  vehicle_lifetime_days integer,           -- vehicle_lifetime_years * 365 (odometer: capped by lifetime miles)
+  depreciation_method text,                -- 'straight-line', 'odometer', 'declining-balance'
   max_miles_per_day integer,               -- 300
 
   -- Intermediate calculations (formulas documented)
@@ -43,6 +45,11 @@ create table if not exists simulation_results (
   is_profitable boolean                    -- = margin_per_mile > 0
 );
 
+-- Tables created before the depreciation method existed
+alter table simulation_results add column if not exists depreciation_method text;
+-- ... and before itemized variable cost
+alter table simulation_results add column if not exists variable_cost_mode text;
+
 -- Indexes for common queries
 create index if not exists idx_sim_results_run_label on simulation_results(run_label);
 create index if not exists idx_sim_results_sweep_type on simulation_results(sweep_type);
@@ -2,28 +2,21 @@
 // Batch Simulation Script — Robotaxi Cost Model
 // =============================================================================
 // Standalone script: does NOT touch the app, API routes, or frontend.
-// Sweeps utilization, deadhead, and vehiclesPerOperator across 3 presets.
+// Sweeps utilization, deadhead, and vehiclesPerOperator across the shared presets.
 // Inserts all results (inputs + intermediates + outputs) into Supabase.
 //
 // Usage:
 //   1. Run the SQL in scripts/create-simulation-table.sql in Supabase SQL Editor
 //   2. npm run simulate
 //
-// Formulas (identical to src/App.tsx):
-//   vehicleCostPerDay        = vehicleCost / vehicleLifetimeDays
-//   teleopsAndOpsPerDay      = (operatorCostPerHour * opsHoursPerDay) / vehiclesPerOperator
-//   fixedDailyCost           = vehicleCostPerDay + teleopsAndOpsPerDay
-//   utilizationDecimal       = utilizationPercent / 100
-//   deadheadDecimal          = min(deadheadPercent / 100, 0.95)
-//   milesPerDay              = maxMilesPerDay * utilizationDecimal
-//   paidMilesPerDay          = milesPerDay * (1 - deadheadDecimal)
-//   totalCostPerMile         = (fixedDailyCost / paidMilesPerDay) + variableCostPerMile
-//   marginPerMile            = revenuePerMile - totalCostPerMile
-//   breakEvenUtilization     = fixedDailyCost / (maxMilesPerDay * (1-deadheadDecimal) * (revenuePerMile - variableCostPerMile))
+// Formulas and presets come from src/model (the same engine the app uses).
 // =============================================================================
 
 import dotenv from 'dotenv';
 import { createClient } from '@supabase/supabase-js';
+import { SimulationInputs, calculateMetrics } from '../src/model/economics';
+import { PRESETS } from '../src/model/presets';
+import { parameterGrid } from '../src/model/sweep';
 
 // Load environment variables from .env.local
 dotenv.config({ path: '.env.local' });
@@ -39,146 +32,76 @@ if (!supabaseUrl || !supabaseKey) {
 const supabase = createClient(supabaseUrl, supabaseKey);
 
 // =============================================================================
-// Constants (same as App.tsx)
+// Simulation Row (engine output flattened to simulation_results columns)
 // =============================================================================
-const OPERATOR_COST_PER_HOUR = 40;
-const VEHICLE_LIFETIME_DAYS = 1825;
-const MAX_MILES_PER_DAY = 300;
-
-// =============================================================================
-// Presets (same as App.tsx)
-// =============================================================================
-const PRESETS = {
-  'Early launch': {
-    fleetSize: 500,
-    vehiclesPerOperator: 3,
-    vehicleCost: 200000,
-    opsHoursPerDay: 16,
-    deadheadPercent: 60,
-    variableCostPerMile: 0.80,
-    revenuePerMile: 3.50,
-    utilizationPercent: 25,
-  },
-  'Scaling city': {
-    fleetSize: 2000,
-    vehiclesPerOperator: 5,
-    vehicleCost: 170000,
-    opsHoursPerDay: 20,
-    deadheadPercent: 44,
-    variableCostPerMile: 0.60,
-    revenuePerMile: 2.50,
-    utilizationPercent: 40,
-  },
-  'Mature city': {
-    fleetSize: 8000,
-    vehiclesPerOperator: 8,
-    vehicleCost: 150000,
-    opsHoursPerDay: 22,
-    deadheadPercent: 25,
-    variableCostPerMile: 0.45,
-    revenuePerMile: 2.20,
-    utilizationPercent: 65,
-  },
-};
-
-// =============================================================================
-// Simulation Engine (same formulas as App.tsx)
-// =============================================================================
-function simulate(params) {
-  const vehicleCostPerDay = params.vehicleCost / VEHICLE_LIFETIME_DAYS;
-  const teleopsAndOpsPerDay = (OPERATOR_COST_PER_HOUR * params.opsHoursPerDay) / params.vehiclesPerOperator;
-  const fixedDailyCost = vehicleCostPerDay + teleopsAndOpsPerDay;
-
-  const utilizationDecimal = params.utilizationPercent / 100;
-  const deadheadDecimal = Math.min(params.deadheadPercent / 100, 0.95);
-
-  const milesPerDay = MAX_MILES_PER_DAY * utilizationDecimal;
-  const paidMilesPerDay = milesPerDay * (1 - deadheadDecimal);
-
-  let totalCostPerMile, marginPerMile;
-  if (paidMilesPerDay <= 0) {
-    totalCostPerMile = 9999.99;
-    marginPerMile = -9999.99;
-  } else {
-    totalCostPerMile = (fixedDailyCost / paidMilesPerDay) + params.variableCostPerMile;
-    marginPerMile = params.revenuePerMile - totalCostPerMile;
-  }
-
-  // Break-even utilization calculation
-  const netRevenuePerMile = params.revenuePerMile - params.variableCostPerMile;
-  const paidMilesRatio = 1 - deadheadDecimal;
-  let breakEvenUtilizationPercent = null;
-  if (netRevenuePerMile > 0 && paidMilesRatio > 0) {
-    const breakEvenUtilization = fixedDailyCost / (MAX_MILES_PER_DAY * paidMilesRatio * netRevenuePerMile);
-    const bePercent = breakEvenUtilization * 100;
-    if (bePercent >= 0 && bePercent <= 100) {
-      breakEvenUtilizationPercent = round(bePercent, 2);
-    }
-  }
+function simulate(params: SimulationInputs) {
+  const m = calculateMetrics(params);
+  const hasPaidMiles = m.paidMilesPerDay > 0;
 
   return {
     // Constants
-    operator_cost_per_hour: OPERATOR_COST_PER_HOUR,
-    vehicle_lifetime_days: VEHICLE_LIFETIME_DAYS,
-    max_miles_per_day: MAX_MILES_PER_DAY,
+    operator_cost_per_hour: params.operatorCostPerHour,
+    vehicle_lifetime_days: Math.round(m.vehicleLifetimeDays),
+    depreciation_method: params.depreciationMethod,
+    max_miles_per_day: Math.round(m.serviceMilesCapacity),
     // Inputs
     fleet_size: params.fleetSize,
     vehicles_per_operator: params.vehiclesPerOperator,
     vehicle_cost: params.vehicleCost,
     ops_hours_per_day: params.opsHoursPerDay,
     deadhead_percent: params.deadheadPercent,
-    variable_cost_per_mile: params.variableCostPerMile,
+    // What the engine charged: the flat figure, or the itemized total
+    variable_cost_per_mile: round(m.variableCostPerPaidMile, 4),
+    variable_cost_mode: params.variableCostMode,
     revenue_per_mile: params.revenuePerMile,
     utilization_percent: params.utilizationPercent,
     // Intermediates
-    vehicle_cost_per_day: round(vehicleCostPerDay, 4),
-    teleops_and_ops_per_day: round(teleopsAndOpsPerDay, 4),
-    fixed_daily_cost: round(fixedDailyCost, 4),
-    utilization_decimal: round(utilizationDecimal, 4),
-    deadhead_decimal: round(deadheadDecimal, 4),
-    miles_per_day: round(milesPerDay, 2),
-    paid_miles_per_day: round(paidMilesPerDay, 2),
-    // Outputs
-    total_cost_per_mile: round(totalCostPerMile, 4),
-    margin_per_mile: round(marginPerMile, 4),
-    break_even_utilization_percent: breakEvenUtilizationPercent,
-    is_profitable: marginPerMile > 0,
+    vehicle_cost_per_day: round(m.vehicleCostPerDay, 4),
+    teleops_and_ops_per_day: round(m.teleopsAndOpsPerDay, 4),
+    fixed_daily_cost: round(m.fixedDailyCost, 4),
+    utilization_decimal: round(m.utilizationDecimal, 4),
+    deadhead_decimal: round(m.deadheadDecimal, 4),
+    miles_per_day: round(m.milesPerDay, 2),
+    paid_miles_per_day: round(m.paidMilesPerDay, 2),
+    // Outputs (no paid miles → sentinel values, the column is numeric)
+    total_cost_per_mile: hasPaidMiles ? round(m.totalCostPerMile, 4) : 9999.99,
+    margin_per_mile: hasPaidMiles ? round(m.marginPerMile, 4) : -9999.99,
+    break_even_utilization_percent: m.breakEvenUtilizationPercent !== null
+      ? round(m.breakEvenUtilizationPercent, 2)
+      : null,
+    is_profitable: m.marginPerMile > 0,
   };
 }
 
-function round(value, decimals) {
+function round(value: number, decimals: number) {
   return Math.round(value * Math.pow(10, decimals)) / Math.pow(10, decimals);
 }
 
 // =============================================================================
 // Parameter Sweep Ranges
 // =============================================================================
-function range(min, max, step) {
-  const values = [];
-  for (let v = min; v <= max + step * 0.01; v += step) {
-    values.push(round(v, 2));
-  }
-  return values;
-}
-
+// Bounds and spacing come from the parameter registry (src/model/parameters.ts):
+// each sweep covers the app's slider range, geometrically for log-scale inputs.
 const SWEEP_RANGES = {
-  utilization: range(10, 90, 5),      // 17 values
-  deadhead: range(10, 80, 5),         // 15 values
-  vehiclesPerOperator: range(2, 60, 2), // 30 values
+  utilization: parameterGrid('utilizationPercent', 17),         // 10–90, step 5
+  deadhead: parameterGrid('deadheadPercent', 13),               // 10–70, step 5
+  vehiclesPerOperator: parameterGrid('vehiclesPerOperator', 30), // 2–200, geometric
 };
 
 // Coarser grid for cross-sweep
 const CROSS_SWEEP_RANGES = {
-  utilization: range(10, 90, 10),     // 9 values
-  deadhead: range(10, 80, 10),        // 8 values
-  vehiclesPerOperator: [3, 5, 8, 15, 30],  // 5 values
+  utilization: parameterGrid('utilizationPercent', 9),          // step 10
+  deadhead: parameterGrid('deadheadPercent', 7),                // step 10
+  vehiclesPerOperator: parameterGrid('vehiclesPerOperator', 5), // 2, 6, 20, 63, 200
 };
 
 // =============================================================================
 // Generate All Simulation Rows
 // =============================================================================
+type SimulationRow = ReturnType<typeof simulate> & { run_label: string; sweep_type: string };
+
 function generateRows() {
-  const rows = [];
+  const rows: SimulationRow[] = [];
 
   for (const [presetName, preset] of Object.entries(PRESETS)) {
     // --- Single-parameter sweeps ---
@@ -239,7 +162,7 @@ function generateRows() {
 // =============================================================================
 // Insert into Supabase (batch of 500)
 // =============================================================================
-async function insertRows(rows) {
+async function insertRows(rows: SimulationRow[]) {
   const BATCH_SIZE = 500;
   let inserted = 0;
 
@@ -270,9 +193,9 @@ async function main() {
   console.log('='.repeat(60));
   console.log('');
   console.log('Parameters being swept:');
-  console.log(`  • Utilization: ${SWEEP_RANGES.utilization[0]}% → ${SWEEP_RANGES.utilization.at(-1)}% (step 5)`);
-  console.log(`  • Deadhead: ${SWEEP_RANGES.deadhead[0]}% → ${SWEEP_RANGES.deadhead.at(-1)}% (step 5)`);
-  console.log(`  • Vehicles/Operator: ${SWEEP_RANGES.vehiclesPerOperator[0]} → ${SWEEP_RANGES.vehiclesPerOperator.at(-1)} (step 2)`);
+  console.log(`  • Utilization: ${SWEEP_RANGES.utilization[0]}% → ${SWEEP_RANGES.utilization.at(-1)}% (${SWEEP_RANGES.utilization.length} values)`);
+  console.log(`  • Deadhead: ${SWEEP_RANGES.deadhead[0]}% → ${SWEEP_RANGES.deadhead.at(-1)}% (${SWEEP_RANGES.deadhead.length} values)`);
+  console.log(`  • Vehicles/Operator: ${SWEEP_RANGES.vehiclesPerOperator[0]} → ${SWEEP_RANGES.vehiclesPerOperator.at(-1)} (${SWEEP_RANGES.vehiclesPerOperator.length} values)`);
   console.log('');
   console.log('Presets:', Object.keys(PRESETS).join(', '));
   console.log('');
@@ -283,7 +206,7 @@ async function main() {
   console.log('');
 
   // Show breakdown
-  const sweepCounts = {};
+  const sweepCounts: Record<string, number> = {};
   for (const row of rows) {
     const key = `${row.run_label} / ${row.sweep_type}`;
     sweepCounts[key] = (sweepCounts[key] || 0) + 1;
@@ -1,67 +1,16 @@
 import React, { useState, useMemo } from 'react'
-
-interface SimulationInputs {
-  fleetSize: number
-  vehiclesPerOperator: number
-  vehicleCost: number
-  opsHoursPerDay: number
-  deadheadPercent: number
-  variableCostPerMile: number
-  revenuePerMile: number
-  utilizationPercent: number
-}
+import { SimulationInputs, calculateMetrics, getMarginStatus } from './model/economics'
+import { DEFAULT_INPUTS } from './model/presets'
 
 type XAxisVariable = 'utilization' | 'deadhead' | 'vehiclesPerOperator'
 
 const App: React.FC = () => {
-  const [inputs, setInputs] = useState<SimulationInputs>({
-    fleetSize: 2000,
-    vehiclesPerOperator: 5,
-    vehicleCost: 170000,
-    opsHoursPerDay: 20,
-    deadheadPercent: 44,
-    variableCostPerMile: 0.60,
-    revenuePerMile: 2.50,
-    utilizationPercent: 40,
-  })
+  const [inputs, setInputs] = useState<SimulationInputs>(DEFAULT_INPUTS)
 
   const [xAxisVariable, setXAxisVariable] = useState<XAxisVariable>('utilization')
 
-  // Constants
-  const operatorCostPerHour = 40
-  const vehicleLifetimeDays = 1825
-  const maxMilesPerDay = 300
-
-  // Economic model calculations
-  const calculateMetrics = (params: SimulationInputs) => {
-    const vehicleCostPerDay = params.vehicleCost / vehicleLifetimeDays
-    const teleopsAndOpsPerDay = (operatorCostPerHour * params.opsHoursPerDay) / params.vehiclesPerOperator
-    const fixedDailyCost = vehicleCostPerDay + teleopsAndOpsPerDay
-    
-    const utilizationDecimal = params.utilizationPercent / 100
-    const deadheadDecimal = Math.min(params.deadheadPercent / 100, 0.95)
-    
-    const milesPerDay = maxMilesPerDay * utilizationDecimal
-    const paidMilesPerDay = milesPerDay * (1 - deadheadDecimal)
-    
-    // Avoid division by zero
-    if (paidMilesPerDay <= 0) {
-      return {
-        totalCostPerMile: Infinity,
-        marginPerMile: -Infinity,
-      }
-    }
-    
-    const totalCostPerMile = (fixedDailyCost / paidMilesPerDay) + params.variableCostPerMile
-    const marginPerMile = params.revenuePerMile - totalCostPerMile
-    
-    return {
-      totalCostPerMile,
-      marginPerMile,
-    }
-  }
-
   const currentMetrics = useMemo(() => calculateMetrics(inputs), [inputs])
+  const currentStatus = getMarginStatus(currentMetrics.marginPerMile)
 
   const handleInputChange = (field: keyof SimulationInputs, value: number) => {
     setInputs(prev => ({ ...prev, [field]: value }))
@@ -282,11 +231,10 @@ const App: React.FC = () => {
 
               <div>
                 <span className={`px-3 py-1 rounded text-white text-sm font-medium ${
-                  currentMetrics.marginPerMile < 0 ? 'bg-red-500' : 
-                  currentMetrics.marginPerMile <= 0.25 ? 'bg-yellow-500' : 'bg-green-500'
+                  currentStatus === 'Losing' ? 'bg-red-500' : 
+                  currentStatus === 'Break-even' ? 'bg-yellow-500' : 'bg-green-500'
                 }`}>
-                  {currentMetrics.marginPerMile < 0 ? 'Losing' : 
-                   currentMetrics.marginPerMile <= 0.25 ? 'Break-even' : 'Profitable'}
+                  {currentStatus}
                 </span>
               </div>
             </div>
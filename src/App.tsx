@@ -1,74 +1,201 @@
-import React, { useState, useMemo, useEffect } from 'react'
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
-
-interface SimulationInputs {
-  fleetSize: number
-  vehiclesPerOperator: number
-  vehicleCost: number
-  opsHoursPerDay: number
-  deadheadPercent: number
-  variableCostPerMile: number
-  revenuePerMile: number
-  utilizationPercent: number
-  vehicleLifetimeYears: number
+import React, { useState, useMemo, useEffect, useRef } from 'react'
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
+import {
+  SimulationInputs,
+  NumericInput,
+  NUMERIC_INPUTS,
+  DepreciationMethod,
+  DEPRECIATION_METHODS,
+  PricingMode,
+  PRICING_MODES,
+  MileageModel,
+  MILEAGE_MODELS,
+  VariableCostMode,
+  VARIABLE_COST_MODES,
+  EnergySource,
+  ENERGY_SOURCES,
+  VariableCostItem,
+  VARIABLE_COST_ITEMS,
+  DAYS_PER_YEAR,
+  calculateMetrics,
+  getMarginStatus,
+  decliningBalanceSchedule,
+  variableCostItems,
+} from './model/economics'
+import { PRESETS, DEFAULT_INPUTS } from './model/presets'
+import { ProjectionInputs, defaultProjectionInputs, runProjection } from './model/projection'
+import { InvestmentInputs, DEFAULT_INVESTMENT_INPUTS, calculateInvestment } from './model/investment'
+import { UncertaintyInputs, DEFAULT_UNCERTAINTY_INPUTS, sampleInputs, runMonteCarlo, percentiles } from './model/uncertainty'
+import { SensitivityInputs, DEFAULT_SENSITIVITY_INPUTS, runSensitivity } from './model/sensitivity'
+import { ParameterGroup, PARAMETER_GROUPS, SLIDER_RANGES, UnitFormat, parametersIn } from './model/parameters'
+import { GoalSeekInputs, DEFAULT_GOAL_SEEK_INPUTS, GOAL_SEEK_METRICS, goalSeek } from './model/goalSeek'
+import { OptimizerInputs, defaultOptimizerInputs, optimize } from './model/optimizer'
+import { HeatmapInputs, DEFAULT_HEATMAP_INPUTS, marginGrid } from './model/heatmap'
+import { canUseLogScale, sweepValues } from './model/sweep'
+import { FleetKpiRow } from './components/FleetKpiRow'
+import { ParameterSlider } from './components/ParameterSlider'
+import { ProjectionPanel } from './components/ProjectionPanel'
+import { InvestmentPanel } from './components/InvestmentPanel'
+import { CostBreakdownPanel, CostComponent, COST_COMPONENTS } from './components/CostBreakdownPanel'
+import { UncertaintyPanel } from './components/UncertaintyPanel'
+import { SensitivityPanel } from './components/SensitivityPanel'
+import { HeatmapPanel } from './components/HeatmapPanel'
+import { GoalSeekPanel } from './components/GoalSeekPanel'
+import { OptimizerPanel } from './components/OptimizerPanel'
+import { ScenarioList } from './components/ScenarioList'
+import { ReferenceLineEditor } from './components/ReferenceLineEditor'
+import { ComparePanel } from './components/ComparePanel'
+import { PresetManager } from './components/PresetManager'
+import { UnitSettingsPanel } from './components/UnitSettingsPanel'
+import { formatIrr, formatPayback } from './utils/format'
+import { downloadFile, slugify } from './utils/download'
+import { recordsToCsv } from './utils/csv'
+import { assumptionPhrases, composeChartSvg, svgToPng } from './utils/chartExport'
+import {
+  PresetEntry,
+  PresetSource,
+  PRESET_SOURCES,
+  TeamPresetDraft,
+  BUILT_IN_PRESETS,
+  loadUserPresets,
+  saveUserPresets,
+  createUserPreset,
+  fetchTeamPresets,
+  publishTeamPreset,
+  isModified,
+} from './utils/presetLibrary'
+import { scenarioToJson, scenarioToCsv, parseScenarioFile } from './utils/scenarioFile'
+import { encodeShareState, decodeShareState, buildShareUrl } from './utils/shareLink'
+import { ReferenceLineSpec, DEFAULT_REFERENCE_LINES, createReferenceLine } from './utils/referenceLines'
+import { Scenario, ScenarioStore, loadScenarioStore, saveScenarioStore, createScenario, MAX_PINNED, SCENARIO_COLORS } from './utils/scenarios'
+import {
+  UnitSettings,
+  loadUnitSettings,
+  saveUnitSettings,
+  unitFormat,
+  toDisplay,
+  inputToDisplay,
+  inputsToDisplay,
+  metricToDisplay,
+  metricFromDisplay,
+  metricsToDisplay,
+  variableCostItemsToDisplay,
+  formatMetric,
+  localizeLabel,
+  parameterLabel,
+} from './utils/units'
+
+// Any numeric input can be swept along X
+type XAxisVariable = NumericInput
+
+type ChartMode = 'curve' | 'compare' | 'breakdown' | 'heatmap' | 'sensitivity' | 'goalSeek' | 'optimizer' | 'uncertainty' | 'projection' | 'investment'
+
+const CHART_MODES: Record<ChartMode, string> = {
+  curve: 'Steady state',
+  compare: 'Compare',
+  breakdown: 'Cost breakdown',
+  heatmap: 'Heatmap',
+  sensitivity: 'Sensitivity',
+  goalSeek: 'Goal seek',
+  optimizer: 'Optimizer',
+  uncertainty: 'Uncertainty',
+  projection: 'Projection',
+  investment: 'Cash flow',
 }
 
-type XAxisVariable = 'utilization' | 'deadhead' | 'vehiclesPerOperator'
-
-const PRESETS = {
-  'Early launch': {
-    fleetSize: 500,
-    vehiclesPerOperator: 3,
-    vehicleCost: 200000,
-    opsHoursPerDay: 16,
-    deadheadPercent: 60,
-    variableCostPerMile: 0.80,
-    revenuePerMile: 3.50,
-    utilizationPercent: 25,
-    vehicleLifetimeYears: 5,
-  },
-  'Scaling city': {
-    fleetSize: 2000,
-    vehiclesPerOperator: 5,
-    vehicleCost: 170000,
-    opsHoursPerDay: 20,
-    deadheadPercent: 44,
-    variableCostPerMile: 0.60,
-    revenuePerMile: 2.50,
-    utilizationPercent: 40,
-    vehicleLifetimeYears: 5,
-  },
-  'Mature city': {
-    fleetSize: 100000,
-    vehiclesPerOperator: 80,
-    vehicleCost: 50000,
-    opsHoursPerDay: 22,
-    deadheadPercent: 15,
-    variableCostPerMile: 0.15,
-    revenuePerMile: 2.20,
-    utilizationPercent: 80,
-    vehicleLifetimeYears: 5,
-  }
+type YAxisMetric = 'totalCostPerMile' | 'marginPerMile' | 'fleetProfitPerDay' | 'breakEvenUtilizationPercent' | 'fleetRevenuePerYear' | 'fleetContributionPerYear' | 'fleetProfitPerYear'
+
+// Per-mile metrics are capped for display so a near-zero-mileage point doesn't flatten the curve.
+// Labels are in dollars and miles (see localizeLabel); caps apply in model units; format takes display units.
+const Y_AXIS_METRICS: Record<YAxisMetric, {
+  label: string
+  axisLabel: string
+  format: (value: number, f: UnitFormat) => string
+  displayRange?: [number, number]
+}> = {
+  totalCostPerMile: { label: 'Cost / mile', axisLabel: 'Total Cost / Mile ($)', format: (v, f) => f.money(v, 2), displayRange: [0, 10] },
+  marginPerMile: { label: 'Margin / mile', axisLabel: 'Margin / Mile ($)', format: (v, f) => f.money(v, 2), displayRange: [-10, 5] },
+  fleetProfitPerDay: { label: 'Fleet profit / day', axisLabel: 'Fleet Profit / Day ($)', format: (v, f) => f.compactMoney(v) },
+  breakEvenUtilizationPercent: { label: 'Break-even utilization', axisLabel: 'Break-even Utilization (%)', format: (v, f) => `${f.number(v, 1)}%`, displayRange: [0, 200] },
+  fleetRevenuePerYear: { label: 'Fleet revenue / yr', axisLabel: 'Fleet Revenue / Year ($)', format: (v, f) => f.compactMoney(v) },
+  fleetContributionPerYear: { label: 'Fleet contribution / yr', axisLabel: 'Fleet Contribution / Year ($)', format: (v, f) => f.compactMoney(v) },
+  fleetProfitPerYear: { label: 'Fleet profit / yr', axisLabel: 'Fleet Profit / Year ($)', format: (v, f) => f.compactMoney(v) },
 }
 
+const formatXValue = (value: number, f: UnitFormat) => Math.abs(value) >= 1000 ? f.compactNumber(value) : f.number(value)
+
+// Samples used for the fan band on the cost curve (the full run feeds the Uncertainty tab)
+const FAN_SAMPLES = 300
+
 const App: React.FC = () => {
-  const [inputs, setInputs] = useState<SimulationInputs>({
-    fleetSize: 2000,
-    vehiclesPerOperator: 5,
-    vehicleCost: 170000,
-    opsHoursPerDay: 20,
-    deadheadPercent: 44,
-    variableCostPerMile: 0.60,
-    revenuePerMile: 2.50,
-    utilizationPercent: 40,
-    vehicleLifetimeYears: 5,
-  })
+  // State restored from a shared link, read once on load
+  const [sharedLink] = useState(() =>
+    decodeShareState(window.location.hash)
+  )
+  const [inputs, setInputs] = useState<SimulationInputs>(sharedLink.state.inputs ?? DEFAULT_INPUTS)
+  const [activePreset, setActivePreset] = useState(sharedLink.state.preset ?? '')
+  // Values adjusted while loading a link or an imported file
+  const [notice, setNotice] = useState<{ title: string; warnings: string[] } | null>(
+    sharedLink.warnings.length > 0 ? { title: 'Some values in this link were adjusted:', warnings: sharedLink.warnings } : null
+  )
+  const [linkCopied, setLinkCopied] = useState(false)
 
-  const [xAxisVariable, setXAxisVariable] = useState<XAxisVariable>('utilization')
+  const [xAxisVariable, setXAxisVariable] = useState<XAxisVariable>(sharedLink.state.xAxisVariable ?? 'utilizationPercent')
+  const [xAxisLog, setXAxisLog] = useState(sharedLink.state.xAxisLog ?? false)
+  const [yAxisMetric, setYAxisMetric] = useState<YAxisMetric>('totalCostPerMile')
+  const [chartMode, setChartMode] = useState<ChartMode>('curve')
+  const [referenceLines, setReferenceLines] = useState<ReferenceLineSpec[]>(DEFAULT_REFERENCE_LINES)
+  const [projectionInputs, setProjectionInputs] = useState<ProjectionInputs>(
+    () => defaultProjectionInputs(DEFAULT_INPUTS, PRESETS['Mature city'])
+  )
+  const [investmentInputs, setInvestmentInputs] = useState<InvestmentInputs>(DEFAULT_INVESTMENT_INPUTS)
+  const [uncertaintyInputs, setUncertaintyInputs] = useState<UncertaintyInputs>(DEFAULT_UNCERTAINTY_INPUTS)
+  const [sensitivityInputs, setSensitivityInputs] = useState<SensitivityInputs>(DEFAULT_SENSITIVITY_INPUTS)
+  const [goalSeekInputs, setGoalSeekInputs] = useState<GoalSeekInputs>(DEFAULT_GOAL_SEEK_INPUTS)
+  const [heatmapInputs, setHeatmapInputs] = useState<HeatmapInputs>(DEFAULT_HEATMAP_INPUTS)
+  const [optimizerInputs, setOptimizerInputs] = useState<OptimizerInputs>(() => defaultOptimizerInputs(DEFAULT_INPUTS))
   const [userMessage, setUserMessage] = useState('')
   const [aiReply, setAiReply] = useState('')
   const [loading, setLoading] = useState(false)
   const [showDisclaimer, setShowDisclaimer] = useState(false)
+  const [showAdvanced, setShowAdvanced] = useState(false)
+  const [units, setUnits] = useState<UnitSettings>(loadUnitSettings)
+  const [scenarioStore, setScenarioStore] = useState<ScenarioStore>(loadScenarioStore)
+  const [userPresets, setUserPresets] = useState<PresetEntry[]>(loadUserPresets)
+  const [teamPresets, setTeamPresets] = useState<PresetEntry[]>([])
+  const [teamPresetsError, setTeamPresetsError] = useState<string | null>(null)
+  const chartRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    saveScenarioStore(scenarioStore)
+  }, [scenarioStore])
+
+  useEffect(() => {
+    saveUserPresets(userPresets)
+  }, [userPresets])
+
+  useEffect(() => {
+    saveUnitSettings(units)
+  }, [units])
+
+  useEffect(() => {
+    fetchTeamPresets()
+      .then(setTeamPresets)
+      .catch(error => {
+        console.warn('Could not load team presets:', error)
+        setTeamPresetsError('Team library is unavailable right now.')
+      })
+  }, [])
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets, ...teamPresets], [userPresets, teamPresets])
+  const activePresetEntry = presets.find(preset => preset.id === activePreset)
+  const presetModified = activePresetEntry !== undefined && isModified(inputs, activePresetEntry)
+
+  // Keep the address bar in step with the model so it can be copied at any time
+  useEffect(() => {
+    const hash = encodeShareState({ inputs, xAxisVariable, xAxisLog, preset: activePreset })
+    window.history.replaceState(null, '', `#${hash}`)
+  }, [inputs, xAxisVariable, xAxisLog, activePreset])
   
   // Track page view on component mount
   useEffect(() => {
@@ -102,116 +229,92 @@ const App: React.FC = () => {
     }
   }
 
-  // Constants
-  const operatorCostPerHour = 40
-  const vehicleLifetimeDays = inputs.vehicleLifetimeYears * 365
-  const maxMilesPerDay = 300
-
-  // Economic model calculations
-  const calculateMetrics = (params: SimulationInputs) => {
-    const vehicleCostPerDay = params.vehicleCost / vehicleLifetimeDays
-    const teleopsAndOpsPerDay = (operatorCostPerHour * params.opsHoursPerDay) / params.vehiclesPerOperator
-    const fixedDailyCost = vehicleCostPerDay + teleopsAndOpsPerDay
-    
-    const utilizationDecimal = params.utilizationPercent / 100
-    const deadheadDecimal = Math.min(params.deadheadPercent / 100, 0.95)
-    
-    const milesPerDay = maxMilesPerDay * utilizationDecimal
-    const paidMilesPerDay = milesPerDay * (1 - deadheadDecimal)
-    
-    // Avoid division by zero
-    if (paidMilesPerDay <= 0) {
-      return {
-        totalCostPerMile: Infinity,
-        marginPerMile: -Infinity,
-      }
-    }
-    
-    const totalCostPerMile = (fixedDailyCost / paidMilesPerDay) + params.variableCostPerMile
-    const marginPerMile = params.revenuePerMile - totalCostPerMile
-    
-    return {
-      totalCostPerMile,
-      marginPerMile,
-    }
-  }
-
   const currentMetrics = useMemo(() => calculateMetrics(inputs), [inputs])
+  const decliningSchedule = useMemo(
+    () => inputs.depreciationMethod === 'declining-balance' ? decliningBalanceSchedule(inputs) : null,
+    [inputs]
+  )
+  const currentVariableCostItems = useMemo(
+    () => inputs.variableCostMode === 'itemized' ? variableCostItems(inputs) : null,
+    [inputs]
+  )
+  const unitFmt = unitFormat(units)
+  const breakEvenUtilizationPercent = currentMetrics.breakEvenUtilizationPercent
+  const currentStatus = getMarginStatus(currentMetrics.marginPerMile)
+  const investmentResult = useMemo(
+    () => calculateInvestment(inputs, investmentInputs),
+    [inputs, investmentInputs]
+  )
 
-  // Calculate break-even utilization
-  const breakEvenUtilizationPercent = useMemo(() => {
-    const vehicleCostPerDay = inputs.vehicleCost / vehicleLifetimeDays
-    const teleopsAndOpsPerDay = (operatorCostPerHour * inputs.opsHoursPerDay) / inputs.vehiclesPerOperator
-    const fixedDailyCost = vehicleCostPerDay + teleopsAndOpsPerDay
-    
-    const deadheadDecimal = Math.min(inputs.deadheadPercent / 100, 0.95)
-    const paidMilesRatio = (1 - deadheadDecimal)
-    
-    // At break-even: marginPerMile = 0
-    // revenuePerMile - totalCostPerMile = 0
-    // revenuePerMile - (fixedDailyCost / paidMilesPerDay + variableCostPerMile) = 0
-    // revenuePerMile - (fixedDailyCost / (maxMilesPerDay * utilization * paidMilesRatio) + variableCostPerMile) = 0
-    // Solve for utilization:
-    // utilization = fixedDailyCost / (maxMilesPerDay * paidMilesRatio * (revenuePerMile - variableCostPerMile))
-    
-    const netRevenuePerMile = inputs.revenuePerMile - inputs.variableCostPerMile
-    if (netRevenuePerMile <= 0 || paidMilesRatio <= 0) return null
-    
-    const breakEvenUtilization = fixedDailyCost / (maxMilesPerDay * paidMilesRatio * netRevenuePerMile)
-    const breakEvenPercent = breakEvenUtilization * 100
-    
-    return (breakEvenPercent >= 0 && breakEvenPercent <= 100) ? breakEvenPercent : null
-  }, [inputs])
+  const hasUncertainty = Object.keys(uncertaintyInputs.distributions).length > 0
+  const uncertaintySamples = useMemo(
+    () => hasUncertainty ? sampleInputs(inputs, uncertaintyInputs) : [],
+    [inputs, uncertaintyInputs, hasUncertainty]
+  )
+  const uncertaintyResult = useMemo(
+    () => hasUncertainty ? runMonteCarlo(uncertaintySamples) : null,
+    [uncertaintySamples, hasUncertainty]
+  )
+  const pinnedScenarios = useMemo(
+    () => scenarioStore.pinnedIds
+      .map(id => scenarioStore.scenarios.find(scenario => scenario.id === id))
+      .filter((scenario): scenario is Scenario => scenario !== undefined),
+    [scenarioStore]
+  )
+
+  // The fan reruns every sample at every sweep point, so it uses a prefix of the run
+  const fanSamples = useMemo(() => uncertaintySamples.slice(0, FAN_SAMPLES), [uncertaintySamples])
 
   // Generate chart data
+  const logXAxis = xAxisLog && canUseLogScale(xAxisVariable)
+
+  // Chart points are in the user's units; the sweep and caps run in model units.
+  // `exact` keeps the uncapped values for the data export.
   const chartData = useMemo(() => {
-    const data = []
-    let range: { min: number; max: number; step: number }
-    
-    switch (xAxisVariable) {
-      case 'utilization':
-        range = { min: 10, max: 90, step: 2 }
-        break
-      case 'deadhead':
-        range = { min: 10, max: 70, step: 1.5 }
-        break
-      case 'vehiclesPerOperator':
-        range = { min: 2, max: 200, step: 5 }
-        break
-    }
-    
-    for (let value = range.min; value <= range.max; value += range.step) {
-      const testInputs = { ...inputs }
-      
-      switch (xAxisVariable) {
-        case 'utilization':
-          testInputs.utilizationPercent = value
-          break
-        case 'deadhead':
-          testInputs.deadheadPercent = value
-          break
-        case 'vehiclesPerOperator':
-          testInputs.vehiclesPerOperator = value
-          break
-      }
+    const displayRange = Y_AXIS_METRICS[yAxisMetric].displayRange
+    const inDisplayUnits = (value: number | null) => value !== null ? metricToDisplay(yAxisMetric, value, units) : null
+    const capForDisplay = (value: number | null) => inDisplayUnits(value !== null && displayRange
+      ? Math.min(Math.max(value, displayRange[0]), displayRange[1])
+      : value)
+
+    const current = inputs[xAxisVariable]
+    return sweepValues(xAxisVariable, current, logXAxis).map(value => {
+      const swept: Partial<SimulationInputs> = { [xAxisVariable]: value }
+      const metrics = calculateMetrics({ ...inputs, ...swept })
+      const y = capForDisplay(metrics[yAxisMetric])
+
+      // P10–P90 fan from the Monte Carlo samples, with the swept input pinned.
+      // Samples that never break even drop out of the break-even fan.
+      const fanValues = fanSamples
+        .map(sample => calculateMetrics({ ...sample, ...swept })[yAxisMetric])
+        .filter((v): v is number => v !== null)
+      const fan = fanValues.length > 0 ? percentiles(fanValues) : null
       
-      const metrics = calculateMetrics(testInputs)
+      // Pinned scenarios swept over the same X values, for the overlay lines
+      const pinnedValues = pinnedScenarios.map(scenario => calculateMetrics({ ...scenario.inputs, ...swept })[yAxisMetric])
+      const pinned = pinnedValues.map(capForDisplay)
       
-      data.push({
-        x: value,
-        totalCostPerMile: Math.min(metrics.totalCostPerMile, 10), // Cap for display
-        isCurrentPoint: Math.abs(value - (xAxisVariable === 'utilization' ? inputs.utilizationPercent : 
-                                        xAxisVariable === 'deadhead' ? inputs.deadheadPercent : 
-                                        inputs.vehiclesPerOperator)) < range.step / 2
-      })
-    }
-    
-    return data
-  }, [inputs, xAxisVariable])
+      return {
+        x: inputToDisplay(xAxisVariable, value, units),
+        y,
+        band: fan ? [capForDisplay(fan.p10), capForDisplay(fan.p90)] : undefined,
+        pinned,
+        exact: {
+          y: inDisplayUnits(metrics[yAxisMetric]),
+          band: fan ? [inDisplayUnits(fan.p10), inDisplayUnits(fan.p90)] : undefined,
+          pinned: pinnedValues.map(inDisplayUnits),
+        },
+        vehicleCostPerPaidMile: metricToDisplay('vehicleCostPerPaidMile', metrics.vehicleCostPerPaidMile, units),
+        teleopsCostPerPaidMile: metricToDisplay('teleopsCostPerPaidMile', metrics.teleopsCostPerPaidMile, units),
+        variableCostPerPaidMile: metricToDisplay('variableCostPerPaidMile', metrics.variableCostPerPaidMile, units),
+        isCurrentPoint: value === current,
+      }
+    })
+  }, [inputs, xAxisVariable, logXAxis, yAxisMetric, fanSamples, pinnedScenarios, units])
 
 
 
-  const handleInputChange = (field: keyof SimulationInputs, value: number) => {
+  const handleInputChange = <K extends keyof SimulationInputs>(field: K, value: SimulationInputs[K]) => {
     setInputs(prev => ({ ...prev, [field]: value }))
     
     // Track parameter changes (debounced)
@@ -223,22 +326,327 @@ const App: React.FC = () => {
     })
   }
 
-  const handlePresetSelect = (presetName: string) => {
-    if (presetName && PRESETS[presetName as keyof typeof PRESETS]) {
-      setInputs(PRESETS[presetName as keyof typeof PRESETS])
-      trackEvent('preset_selected', { preset: presetName })
+  // Sliders for one registry group, in registry order; inputs the current modes ignore are hidden
+  const renderSliders = (group: ParameterGroup) => parametersIn(group)
+    .filter(spec => spec.appliesTo?.(inputs) ?? true)
+    .map(spec => (
+      <ParameterSlider
+        key={spec.key}
+        spec={spec}
+        value={inputs[spec.key]}
+        units={units}
+        onChange={(value) => handleInputChange(spec.key, value)}
+        label={spec.key === 'revenuePerMile' && inputs.pricingMode === 'trip' ? localizeLabel('Per-mile rate', units) : undefined}
+        note={spec.key === 'vehicleLifetimeMiles' && currentMetrics.vehicleLifetimeDays < inputs.vehicleLifetimeYears * DAYS_PER_YEAR
+          ? `retires at ${(currentMetrics.vehicleLifetimeDays / DAYS_PER_YEAR).toFixed(1)} yrs`
+          : undefined}
+      />
+    ))
+
+  const updateScenarios = (update: (store: ScenarioStore) => ScenarioStore) => setScenarioStore(prev => update(prev))
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const name = activePresetEntry
+      ? `${activePresetEntry.name}${presetModified ? ' (modified)' : ''}`
+      : 'Current scenario'
+    const scenario = {
+      name,
+      inputs,
+      referenceLines,
+      metrics: currentMetrics,
+      chart: {
+        xLabel: getXAxisLabel(),
+        yLabel: getYAxisLabel(),
+        // Uncapped, like the chart CSV (X is never capped)
+        points: chartData.map(point => ({ x: point.x, y: point.exact.y })),
+      },
+      units,
+    }
+    const filename = `${slugify(name)}.${format}`
+    if (format === 'json') downloadFile(filename, scenarioToJson(scenario), 'application/json')
+    else downloadFile(filename, scenarioToCsv(scenario), 'text/csv')
+    trackEvent('scenario_exported', { format })
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseScenarioFile(await file.text(), file.name)
+      const name = imported.name ?? file.name.replace(/\.[^.]+$/, '')
+      setInputs(imported.inputs)
+      setReferenceLines(imported.referenceLines)
+      setActivePreset('')
+      updateScenarios(store => ({ ...store, scenarios: [...store.scenarios, createScenario(name, imported.inputs, imported.referenceLines)] }))
+      setNotice(imported.warnings.length > 0 ? { title: `Imported "${name}" with adjustments:`, warnings: imported.warnings } : null)
+      trackEvent('scenario_imported', { warnings: imported.warnings.length })
+    } catch (error) {
+      setNotice({ title: `Could not import ${file.name}:`, warnings: [error instanceof Error ? error.message : String(error)] })
     }
   }
 
+  const handleSaveScenario = (name: string) => {
+    updateScenarios(store => ({ ...store, scenarios: [...store.scenarios, createScenario(name, inputs, referenceLines)] }))
+    trackEvent('scenario_saved', { name })
+  }
 
-  const getXAxisLabel = () => {
-    switch (xAxisVariable) {
-      case 'utilization':
-        return 'Utilization (%)'
-      case 'deadhead':
-        return 'Deadhead (%)'
-      case 'vehiclesPerOperator':
-        return 'Vehicles per Operator'
+  const handleLoadScenario = (id: string) => {
+    const scenario = scenarioStore.scenarios.find(s => s.id === id)
+    if (scenario) {
+      setInputs(scenario.inputs)
+      setReferenceLines(scenario.referenceLines)
+      setActivePreset('')
+    }
+  }
+
+  const handleRenameScenario = (id: string, name: string) => {
+    updateScenarios(store => ({
+      ...store,
+      scenarios: store.scenarios.map(s => s.id === id ? { ...s, name } : s),
+    }))
+  }
+
+  const handleDuplicateScenario = (id: string) => {
+    updateScenarios(store => {
+      const index = store.scenarios.findIndex(s => s.id === id)
+      if (index < 0) return store
+      const { name, inputs, referenceLines } = store.scenarios[index]
+      const copy = createScenario(`${name} (copy)`, inputs, referenceLines)
+      return { ...store, scenarios: [...store.scenarios.slice(0, index + 1), copy, ...store.scenarios.slice(index + 1)] }
+    })
+  }
+
+  // New lines start at the current value of the charted metric, rounded as the user sees it
+  const handleAddReferenceLine = () => {
+    const current = metricToDisplay(yAxisMetric, currentMetrics[yAxisMetric] ?? 0, units)
+    const value = isFinite(current) ? metricFromDisplay(yAxisMetric, Number(current.toPrecision(3)), units) : 0
+    setReferenceLines(lines => [...lines, createReferenceLine(yAxisMetric, value, lines)])
+  }
+
+  const handleDeleteScenario = (id: string) => {
+    updateScenarios(store => ({
+      scenarios: store.scenarios.filter(s => s.id !== id),
+      pinnedIds: store.pinnedIds.filter(pinnedId => pinnedId !== id),
+    }))
+  }
+
+  const handleTogglePin = (id: string) => {
+    updateScenarios(store => ({
+      ...store,
+      pinnedIds: store.pinnedIds.includes(id)
+        ? store.pinnedIds.filter(pinnedId => pinnedId !== id)
+        : [...store.pinnedIds, id].slice(0, MAX_PINNED),
+    }))
+  }
+
+  const handlePresetSelect = (id: string) => {
+    const preset = presets.find(p => p.id === id)
+    if (preset) {
+      setInputs(preset.inputs)
+      setActivePreset(id)
+      trackEvent('preset_selected', { preset: preset.name, source: preset.source })
+    }
+  }
+
+  const handleCreatePreset = (name: string, description: string) => {
+    const preset = createUserPreset(name, description, inputs)
+    setUserPresets(prev => [...prev, preset])
+    setActivePreset(preset.id)
+  }
+
+  const handleEditPreset = (id: string, patch: { name: string; description: string }) => {
+    setUserPresets(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p))
+  }
+
+  const handleOverwritePreset = (id: string) => {
+    setUserPresets(prev => prev.map(p => p.id === id ? { ...p, inputs: { ...inputs } } : p))
+    setActivePreset(id)
+  }
+
+  const handleDeletePreset = (id: string) => {
+    setUserPresets(prev => prev.filter(p => p.id !== id))
+    if (activePreset === id) setActivePreset('')
+  }
+
+  const handlePublishPreset = async (draft: TeamPresetDraft) => {
+    const preset = await publishTeamPreset(draft, inputs)
+    setTeamPresets(prev => [preset, ...prev])
+    setTeamPresetsError(null)
+    setActivePreset(preset.id)
+    trackEvent('team_preset_published')
+  }
+
+
+  const yAxisConfig = Y_AXIS_METRICS[yAxisMetric]
+
+  const getXAxisLabel = () => parameterLabel(xAxisVariable, units)
+
+  const getYAxisLabel = () => localizeLabel(yAxisConfig.axisLabel, units)
+
+  const getChartTitle = () => {
+    switch (chartMode) {
+      case 'curve':
+        return `${localizeLabel(yAxisConfig.label, units)} vs ${getXAxisLabel()}`
+      case 'breakdown':
+        return `${localizeLabel('Cost / mile', units)} breakdown vs ${getXAxisLabel()}`
+      case 'heatmap':
+        return `${localizeLabel('Margin / mile', units)}: ${parameterLabel(heatmapInputs.xField, units)} × ${parameterLabel(heatmapInputs.yField, units)}`
+      default:
+        return CHART_MODES[chartMode]
+    }
+  }
+
+  // The numbers behind the current view, one record per row, in the user's units.
+  // Views whose data lives inside their panel are recomputed here from the same
+  // model functions.
+  const getChartTable = (): Record<string, unknown>[] => {
+    const xLabel = getXAxisLabel()
+    const money = (value: number) => toDisplay(value, 'money', units)
+    const perDistance = (value: number) => toDisplay(value, 'money-per-distance', units)
+    switch (chartMode) {
+      case 'curve':
+        return chartData.map(point => ({
+          [xLabel]: point.x,
+          [getYAxisLabel()]: point.exact.y,
+          ...(hasUncertainty && { P10: point.exact.band?.[0], P90: point.exact.band?.[1] }),
+          ...Object.fromEntries(pinnedScenarios.map((scenario, i) => [scenario.name, point.exact.pinned[i]])),
+        }))
+      case 'breakdown':
+        return chartData.map(point => ({
+          [xLabel]: point.x,
+          ...Object.fromEntries((Object.keys(COST_COMPONENTS) as CostComponent[]).map(component => [COST_COMPONENTS[component].label, point[component]])),
+        }))
+      case 'compare':
+        return pinnedScenarios.map(scenario => {
+          const metrics = calculateMetrics(scenario.inputs)
+          return {
+            scenario: scenario.name,
+            ...inputsToDisplay(scenario.inputs, units),
+            totalCostPerMile: perDistance(metrics.totalCostPerMile),
+            marginPerMile: perDistance(metrics.marginPerMile),
+            breakEvenUtilizationPercent: metrics.breakEvenUtilizationPercent,
+            fleetProfitPerYear: money(metrics.fleetProfitPerYear),
+          }
+        })
+      case 'heatmap': {
+        const { xField, yField } = heatmapInputs
+        const grid = marginGrid(inputs, { field: xField, ...SLIDER_RANGES[xField] }, { field: yField, ...SLIDER_RANGES[yField] })
+        return grid.cells.flat().map(cell => ({
+          [parameterLabel(xField, units)]: inputToDisplay(xField, cell.x, units),
+          [parameterLabel(yField, units)]: inputToDisplay(yField, cell.y, units),
+          marginPerMile: perDistance(cell.marginPerMile),
+          totalCostPerMile: perDistance(cell.totalCostPerMile),
+        }))
+      }
+      case 'sensitivity':
+        return runSensitivity(inputs, sensitivityInputs).map(row => ({
+          input: parameterLabel(row.field, units),
+          lowValue: inputToDisplay(row.field, row.lowValue, units),
+          highValue: inputToDisplay(row.field, row.highValue, units),
+          marginPerMileLow: perDistance(row.marginPerMile.low),
+          marginPerMileHigh: perDistance(row.marginPerMile.high),
+          marginPerMileSwing: perDistance(row.marginPerMile.swing),
+          fleetProfitPerDayLow: money(row.fleetProfitPerDay.low),
+          fleetProfitPerDayHigh: money(row.fleetProfitPerDay.high),
+          fleetProfitPerDaySwing: money(row.fleetProfitPerDay.swing),
+          costElasticity: row.elasticity.totalCostPerMile,
+          marginElasticity: row.elasticity.marginPerMile,
+          profitElasticity: row.elasticity.fleetProfitPerDay,
+        }))
+      case 'goalSeek': {
+        const { metric, target, field } = goalSeekInputs
+        const result = goalSeek(inputs, goalSeekInputs)
+        return [{
+          metric: localizeLabel(GOAL_SEEK_METRICS[metric], units),
+          target: metricToDisplay(metric, target, units),
+          input: parameterLabel(field, units),
+          current: inputToDisplay(field, inputs[field], units),
+          solved: result.solved,
+          value: result.solved ? inputToDisplay(field, result.value, units) : null,
+          method: result.solved ? result.method : null,
+          reachableMin: result.solved ? null : metricToDisplay(metric, result.reachable[0], units),
+          reachableMax: result.solved ? null : metricToDisplay(metric, result.reachable[1], units),
+        }]
+      }
+      case 'optimizer':
+        return optimize(inputs, optimizerInputs).map((plan, i) => ({
+          rank: i + 1,
+          effort: plan.effort,
+          changes: plan.changes
+            .map(({ field, from, to }) => `${parameterLabel(field, units)}: ${inputToDisplay(field, from, units)} -> ${inputToDisplay(field, to, units)}`)
+            .join('; '),
+          marginPerMileBefore: perDistance(plan.before.marginPerMile),
+          marginPerMileAfter: perDistance(plan.after.marginPerMile),
+          totalCostPerMileAfter: perDistance(plan.after.totalCostPerMile),
+          fleetProfitPerYearAfter: money(plan.after.fleetProfitPerYear),
+        }))
+      case 'uncertainty':
+        if (!uncertaintyResult) return []
+        return [
+          ...uncertaintyResult.marginHistogram.map(bin => ({ histogram: 'marginPerMile', bin: perDistance(bin.x), count: bin.count })),
+          ...uncertaintyResult.costHistogram.map(bin => ({ histogram: 'totalCostPerMile', bin: perDistance(bin.x), count: bin.count })),
+        ]
+      case 'projection':
+        return runProjection(inputs, projectionInputs).points.map(point => ({
+          ...point,
+          vehicleCost: money(point.vehicleCost),
+          totalCostPerMile: perDistance(point.totalCostPerMile),
+          marginPerMile: perDistance(point.marginPerMile),
+          operatingCashFlow: money(point.operatingCashFlow),
+          capex: money(point.capex),
+          netCashFlow: money(point.netCashFlow),
+          cumulativeCash: money(point.cumulativeCash),
+        }))
+      case 'investment':
+        return investmentResult.cashFlows.map(point => ({
+          month: point.month,
+          operating: money(point.operating),
+          capex: money(point.capex),
+          financing: money(point.financing),
+          residual: money(point.residual),
+          net: money(point.net),
+          cumulative: money(point.cumulative),
+        }))
+    }
+  }
+
+  const handleChartExport = async (format: 'png' | 'svg' | 'csv') => {
+    const filename = `${slugify(getChartTitle())}.${format}`
+    if (format === 'csv') {
+      downloadFile(filename, recordsToCsv(getChartTable()), 'text/csv')
+      trackEvent('chart_exported', { format, mode: chartMode })
+      return
+    }
+
+    const [firstAssumption, ...assumptions] = assumptionPhrases(inputs, units)
+    const footnote = [
+      [`Assumptions: ${firstAssumption}`, ...assumptions],
+      [
+        'Robotaxi Cost Model',
+        ...(activePresetEntry ? [`preset ${activePresetEntry.name}${presetModified ? ' (modified)' : ''}`] : []),
+        `exported ${new Date().toLocaleDateString()}`,
+      ],
+    ]
+    const image = chartRef.current && composeChartSvg(chartRef.current, getChartTitle(), footnote)
+    if (!image) {
+      setNotice({ title: 'Nothing to export as an image:', warnings: ['This view has no chart. Export it as CSV instead.'] })
+      return
+    }
+    try {
+      if (format === 'svg') downloadFile(filename, image.svg, 'image/svg+xml')
+      else downloadFile(filename, await svgToPng(image), 'image/png')
+      trackEvent('chart_exported', { format, mode: chartMode })
+    } catch (error) {
+      setNotice({ title: 'Could not export the chart:', warnings: [error instanceof Error ? error.message : String(error)] })
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl({ inputs, xAxisVariable, xAxisLog, preset: activePreset }))
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+      trackEvent('link_copied')
+    } catch (error) {
+      console.warn('Could not copy link:', error)
     }
   }
 
@@ -252,25 +660,64 @@ const App: React.FC = () => {
     // Track AI question
     trackEvent('ai_question', { question: userMessage })
 
-    // Compute fresh simState inline to avoid stale closures
-    const freshMetrics = calculateMetrics(inputs)
-    const freshBreakEven = breakEvenUtilizationPercent
+    // Compute fresh simState inline to avoid stale closures. Values go in the
+    // user's units (listed under `units`) so the reply quotes the same figures.
+    const modelMetrics = calculateMetrics(inputs)
+    const freshMetrics = metricsToDisplay(modelMetrics, units)
+    const displayInputs = inputsToDisplay(inputs, units)
     
     const simState = {
-      fleetSize: inputs.fleetSize,
-      utilizationPercent: inputs.utilizationPercent,
-      deadheadPercent: inputs.deadheadPercent,
-      opsHoursPerDay: inputs.opsHoursPerDay,
-      vehicleCost: inputs.vehicleCost,
-      vehicleLifetimeYears: inputs.vehicleLifetimeYears,
-      vehiclesPerOperator: inputs.vehiclesPerOperator,
-      variableCostPerMile: inputs.variableCostPerMile,
-      revenuePerMile: inputs.revenuePerMile,
+      fleetSize: displayInputs.fleetSize,
+      utilizationPercent: displayInputs.utilizationPercent,
+      deadheadPercent: displayInputs.deadheadPercent,
+      opsHoursPerDay: displayInputs.opsHoursPerDay,
+      vehicleCost: displayInputs.vehicleCost,
+      vehicleLifetimeYears: displayInputs.vehicleLifetimeYears,
+      depreciationMethod: displayInputs.depreciationMethod,
+      vehicleLifetimeMiles: displayInputs.vehicleLifetimeMiles,
+      vehiclesPerOperator: displayInputs.vehiclesPerOperator,
+      variableCostMode: displayInputs.variableCostMode,
+      ...(displayInputs.variableCostMode === 'itemized' ? {
+        energySource: displayInputs.energySource,
+        ...(displayInputs.energySource === 'fuel'
+          ? { milesPerGallon: displayInputs.milesPerGallon, fuelPrice: displayInputs.fuelPrice }
+          : { kwhPerMile: displayInputs.kwhPerMile, electricityPrice: displayInputs.electricityPrice }),
+        maintenancePerMile: displayInputs.maintenancePerMile,
+        tiresPerMile: displayInputs.tiresPerMile,
+        insurancePerMile: displayInputs.insurancePerMile,
+        cleaningPerTrip: displayInputs.cleaningPerTrip,
+        calibrationPerMile: displayInputs.calibrationPerMile,
+        avgTripMiles: displayInputs.avgTripMiles,
+        variableCostItems: variableCostItemsToDisplay(variableCostItems(inputs), units),
+      } : {
+        variableCostPerMile: displayInputs.variableCostPerMile,
+      }),
+      variableCostPerPaidMile: freshMetrics.variableCostPerPaidMile,
+      revenuePerMile: displayInputs.revenuePerMile,
+      pricingMode: displayInputs.pricingMode,
+      ...(displayInputs.pricingMode === 'trip' && {
+        avgTripMiles: displayInputs.avgTripMiles,
+        avgSpeedMph: displayInputs.avgSpeedMph,
+        baseFare: displayInputs.baseFare,
+        perMinuteRate: displayInputs.perMinuteRate,
+        bookingFee: displayInputs.bookingFee,
+      }),
+      revenuePerPaidMile: freshMetrics.revenuePerPaidMile,
+      revenuePerTrip: freshMetrics.revenuePerTrip,
+      tripsPerVehiclePerDay: freshMetrics.tripsPerVehiclePerDay,
+      operatorCostPerHour: displayInputs.operatorCostPerHour,
+      maxMilesPerDay: displayInputs.maxMilesPerDay,
+      mileageModel: displayInputs.mileageModel,
+      avgSpeedMph: displayInputs.avgSpeedMph,
+      milesPerDay: freshMetrics.milesPerDay,
       totalCostPerMile: freshMetrics.totalCostPerMile,
       marginPerMile: freshMetrics.marginPerMile,
-      breakEvenUtilization: freshBreakEven,
-      status: freshMetrics.marginPerMile < 0 ? 'Losing' : 
-              freshMetrics.marginPerMile <= 0.25 ? 'Break-even' : 'Profitable'
+      breakEvenUtilization: freshMetrics.breakEvenUtilizationPercent,
+      fleetRevenuePerYear: freshMetrics.fleetRevenuePerYear,
+      fleetContributionPerYear: freshMetrics.fleetContributionPerYear,
+      fleetProfitPerYear: freshMetrics.fleetProfitPerYear,
+      status: getMarginStatus(modelMetrics.marginPerMile),
+      units,
     }
 
     try {
@@ -357,16 +804,40 @@ const App: React.FC = () => {
           
           {/* Row 2: Controls */}
           <div className="flex items-center gap-4 flex-wrap sm:flex-nowrap">
-            <select
-              onChange={(e) => handlePresetSelect(e.target.value)}
-              className="shrink-0 px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-              defaultValue=""
+            <div className="shrink-0 flex items-center gap-2">
+              <select
+                value={activePresetEntry ? activePreset : ''}
+                onChange={(e) => handlePresetSelect(e.target.value)}
+                className="max-w-[14rem] px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="" disabled>Presets</option>
+                {(Object.keys(PRESET_SOURCES) as PresetSource[]).map(source => {
+                  const group = presets.filter(preset => preset.source === source)
+                  return group.length > 0 && (
+                    <optgroup key={source} label={PRESET_SOURCES[source]}>
+                      {group.map(preset => (
+                        <option key={preset.id} value={preset.id}>
+                          {preset.author ? `${preset.name} — ${preset.author}` : preset.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )
+                })}
+              </select>
+              {presetModified && (
+                <span className="text-xs text-amber-600 whitespace-nowrap">
+                  modified ·{' '}
+                  <button onClick={() => handlePresetSelect(activePreset)} className="hover:underline">reset</button>
+                </span>
+              )}
+            </div>
+
+            <button
+              onClick={handleCopyLink}
+              className="shrink-0 px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
             >
-              <option value="" disabled>Presets</option>
-              {Object.keys(PRESETS).map(preset => (
-                <option key={preset} value={preset}>{preset}</option>
-              ))}
-            </select>
+              {linkCopied ? 'Copied!' : 'Copy link'}
+            </button>
             
             <div className="flex items-center gap-2">
               <span className="rounded-full bg-gradient-to-r from-emerald-400 to-blue-500 px-2 py-0.5 text-xs font-semibold text-white">
@@ -384,6 +855,20 @@ const App: React.FC = () => {
           </div>
         </div>
         
+        {notice && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800 flex items-start justify-between gap-3">
+            <div>
+              <div className="font-medium">{notice.title}</div>
+              <ul className="list-disc list-inside text-xs mt-1">
+                {notice.warnings.map(warning => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+            <button onClick={() => setNotice(null)} className="text-yellow-700 hover:text-yellow-900">✕</button>
+          </div>
+        )}
+        
         <div className="grid grid-cols-1 gap-4 lg:grid-cols-3 lg:gap-6 flex-1 overflow-visible lg:overflow-hidden">
           {/* Left Panel - Inputs */}
           <div className="order-4 lg:order-1 lg:col-span-1 lg:overflow-y-auto lg:min-h-0">
@@ -392,186 +877,224 @@ const App: React.FC = () => {
             <div className="space-y-8 pb-4">
               {/* Fleet */}
               <div>
-                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">Fleet</h3>
+                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">{PARAMETER_GROUPS.fleet}</h3>
                 <div className="space-y-3">
-                  <div>
-                    <label className="text-sm font-medium text-gray-700 mb-1 block">Fleet Size</label>
-                    <div className="text-xs text-gray-500 mb-2">{inputs.fleetSize.toLocaleString()}</div>
-                    <input
-                      type="range"
-                      min="500"
-                      max="6000000"
-                      step="500"
-                      value={inputs.fleetSize}
-                      onChange={(e) => handleInputChange('fleetSize', Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                      style={{
-                        background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((inputs.fleetSize - 500) / (6000000 - 500)) * 100}%, #e5e7eb ${((inputs.fleetSize - 500) / (6000000 - 500)) * 100}%, #e5e7eb 100%)`
-                      }}
-                    />
-                  </div>
+                  {renderSliders('fleet')}
                 </div>
               </div>
 
               {/* Demand & Utilization */}
               <div>
-                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">Demand & Utilization</h3>
+                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">{PARAMETER_GROUPS.demand}</h3>
                 <div className="space-y-3">
-                  {/* Utilization */}
+                  {/* Mileage Model */}
                   <div>
-                    <label className="text-sm font-medium text-gray-700 mb-1 block">Utilization</label>
-                    <div className="text-xs text-gray-500 mb-2">{inputs.utilizationPercent}%</div>
-                    <input
-                      type="range"
-                      min="10"
-                      max="90"
-                      step="1"
-                      value={inputs.utilizationPercent}
-                      onChange={(e) => handleInputChange('utilizationPercent', Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                      style={{
-                        background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((inputs.utilizationPercent - 10) / (90 - 10)) * 100}%, #e5e7eb ${((inputs.utilizationPercent - 10) / (90 - 10)) * 100}%, #e5e7eb 100%)`
-                      }}
-                    />
+                    <label className="text-sm font-medium text-gray-700 mb-1 block">Daily Miles</label>
+                    <select
+                      value={inputs.mileageModel}
+                      onChange={(e) => handleInputChange('mileageModel', e.target.value as MileageModel)}
+                      className="w-full px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    >
+                      {(Object.keys(MILEAGE_MODELS) as MileageModel[]).map(model => (
+                        <option key={model} value={model}>{MILEAGE_MODELS[model]}</option>
+                      ))}
+                    </select>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {unitFmt.number(metricToDisplay('milesPerDay', currentMetrics.milesPerDay, units), 0)} of {unitFmt.number(metricToDisplay('serviceMilesCapacity', currentMetrics.serviceMilesCapacity, units), 0)} {unitFmt.distance} / vehicle / day
+                    </div>
                   </div>
 
-                  {/* Deadhead */}
-                  <div>
-                    <label className="text-sm font-medium text-gray-700 mb-1 block">Deadhead</label>
-                    <div className="text-xs text-gray-500 mb-2">{inputs.deadheadPercent}%</div>
-                    <input
-                      type="range"
-                      min="10"
-                      max="70"
-                      step="1"
-                      value={inputs.deadheadPercent}
-                      onChange={(e) => handleInputChange('deadheadPercent', Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                      style={{
-                        background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((inputs.deadheadPercent - 10) / (70 - 10)) * 100}%, #e5e7eb ${((inputs.deadheadPercent - 10) / (70 - 10)) * 100}%, #e5e7eb 100%)`
-                      }}
-                    />
-                  </div>
-
-                  {/* Ops Hours per Day */}
-                  <div>
-                    <label className="text-sm font-medium text-gray-700 mb-1 block">Ops Hours / Day</label>
-                    <div className="text-xs text-gray-500 mb-2">{inputs.opsHoursPerDay}h</div>
-                    <input
-                      type="range"
-                      min="4"
-                      max="24"
-                      step="1"
-                      value={inputs.opsHoursPerDay}
-                      onChange={(e) => handleInputChange('opsHoursPerDay', Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                      style={{
-                        background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((inputs.opsHoursPerDay - 4) / (24 - 4)) * 100}%, #e5e7eb ${((inputs.opsHoursPerDay - 4) / (24 - 4)) * 100}%, #e5e7eb 100%)`
-                      }}
-                    />
-                  </div>
+                  {renderSliders('demand')}
                 </div>
               </div>
 
               {/* Cost Structure (CapEx + OpEx) */}
               <div>
-                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">Cost Structure (CapEx + OpEx)</h3>
+                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">{PARAMETER_GROUPS.cost}</h3>
                 <div className="space-y-3">
-                  {/* Vehicle Cost */}
+                  {/* Depreciation Method */}
                   <div>
-                    <label className="text-sm font-medium text-gray-700 mb-1 block">Vehicle Cost</label>
-                    <div className="text-xs text-gray-500 mb-2">${(inputs.vehicleCost / 1000).toFixed(0)}k</div>
-                    <input
-                      type="range"
-                      min="15000"
-                      max="300000"
-                      step="5000"
-                      value={inputs.vehicleCost}
-                      onChange={(e) => handleInputChange('vehicleCost', Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                      style={{
-                        background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((inputs.vehicleCost - 15000) / (300000 - 15000)) * 100}%, #e5e7eb ${((inputs.vehicleCost - 15000) / (300000 - 15000)) * 100}%, #e5e7eb 100%)`
-                      }}
-                    />
+                    <label className="text-sm font-medium text-gray-700 mb-1 block">Depreciation</label>
+                    <select
+                      value={inputs.depreciationMethod}
+                      onChange={(e) => handleInputChange('depreciationMethod', e.target.value as DepreciationMethod)}
+                      className="w-full px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    >
+                      {(Object.keys(DEPRECIATION_METHODS) as DepreciationMethod[]).map(method => (
+                        <option key={method} value={method}>{DEPRECIATION_METHODS[method]}</option>
+                      ))}
+                    </select>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {formatMetric('vehicleCostPerDay', currentMetrics.vehicleCostPerDay, units)} / vehicle / day
+                      {decliningSchedule && ` in year ${Math.min(Math.floor(inputs.vehicleAgeYears), decliningSchedule.length - 1) + 1} of ${decliningSchedule.length}; year 1 ${formatMetric('vehicleCostPerDay', decliningSchedule[0] / DAYS_PER_YEAR, units)}, year ${decliningSchedule.length} ${formatMetric('vehicleCostPerDay', decliningSchedule[decliningSchedule.length - 1] / DAYS_PER_YEAR, units)}`}
+                    </div>
                   </div>
 
-                  {/* Vehicle Lifetime */}
-                  <div>
-                    <label className="text-sm font-medium text-gray-700 mb-1 block">Vehicle Lifetime</label>
-                    <div className="text-xs text-gray-500 mb-2">{inputs.vehicleLifetimeYears} yrs</div>
-                    <input
-                      type="range"
-                      min="3"
-                      max="10"
-                      step="1"
-                      value={inputs.vehicleLifetimeYears}
-                      onChange={(e) => handleInputChange('vehicleLifetimeYears', Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                      style={{
-                        background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((inputs.vehicleLifetimeYears - 3) / (10 - 3)) * 100}%, #e5e7eb ${((inputs.vehicleLifetimeYears - 3) / (10 - 3)) * 100}%, #e5e7eb 100%)`
-                      }}
-                    />
-                  </div>
+                  {renderSliders('cost')}
+                </div>
+              </div>
 
-                  {/* Vehicles per Operator */}
+              {/* Variable Cost */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">{PARAMETER_GROUPS.variable}</h3>
+                <div className="space-y-3">
+                  {/* Variable Cost Mode */}
                   <div>
-                    <label className="text-sm font-medium text-gray-700 mb-1 block">Vehicles per Operator</label>
-                    <div className="text-xs text-gray-500 mb-2">{inputs.vehiclesPerOperator}</div>
-                    <input
-                      type="range"
-                      min="2"
-                      max="200"
-                      step="1"
-                      value={inputs.vehiclesPerOperator}
-                      onChange={(e) => handleInputChange('vehiclesPerOperator', Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                      style={{
-                        background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((inputs.vehiclesPerOperator - 2) / (200 - 2)) * 100}%, #e5e7eb ${((inputs.vehiclesPerOperator - 2) / (200 - 2)) * 100}%, #e5e7eb 100%)`
-                      }}
-                    />
+                    <label className="text-sm font-medium text-gray-700 mb-1 block">Variable cost</label>
+                    <select
+                      value={inputs.variableCostMode}
+                      onChange={(e) => handleInputChange('variableCostMode', e.target.value as VariableCostMode)}
+                      className="w-full px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    >
+                      {(Object.keys(VARIABLE_COST_MODES) as VariableCostMode[]).map(mode => (
+                        <option key={mode} value={mode}>{VARIABLE_COST_MODES[mode]}</option>
+                      ))}
+                    </select>
                   </div>
 
-                  {/* Variable Cost per Mile */}
-                  <div>
-                    <label className="text-sm font-medium text-gray-700 mb-1 block">Variable Cost / Mile</label>
-                    <div className="text-xs text-gray-500 mb-2">${inputs.variableCostPerMile.toFixed(2)}</div>
-                    <input
-                      type="range"
-                      min="0.05"
-                      max="2.00"
-                      step="0.01"
-                      value={inputs.variableCostPerMile}
-                      onChange={(e) => handleInputChange('variableCostPerMile', Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                      style={{
-                        background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((inputs.variableCostPerMile - 0.05) / (2.00 - 0.05)) * 100}%, #e5e7eb ${((inputs.variableCostPerMile - 0.05) / (2.00 - 0.05)) * 100}%, #e5e7eb 100%)`
-                      }}
-                    />
-                  </div>
+                  {/* Energy Source */}
+                  {inputs.variableCostMode === 'itemized' && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 mb-1 block">Energy</label>
+                      <select
+                        value={inputs.energySource}
+                        onChange={(e) => handleInputChange('energySource', e.target.value as EnergySource)}
+                        className="w-full px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      >
+                        {(Object.keys(ENERGY_SOURCES) as EnergySource[]).map(source => (
+                          <option key={source} value={source}>{ENERGY_SOURCES[source]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {renderSliders('variable')}
+
+                  {/* Itemized roll-up */}
+                  {currentVariableCostItems && (
+                    <div className="text-xs text-gray-600 bg-gray-50 rounded-md p-2 space-y-1">
+                      {(Object.keys(VARIABLE_COST_ITEMS) as VariableCostItem[]).map(item => (
+                        <div key={item} className="flex justify-between">
+                          <span>{VARIABLE_COST_ITEMS[item]}</span>
+                          <span>{unitFmt.money(toDisplay(currentVariableCostItems[item], 'money-per-distance', units), 3)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between border-t border-gray-200 pt-1"><span>{localizeLabel('Variable cost / paid mile', units)}</span><span className="font-semibold">{formatMetric('variableCostPerPaidMile', currentMetrics.variableCostPerPaidMile, units)}</span></div>
+                    </div>
+                  )}
                 </div>
               </div>
 
               {/* Pricing */}
               <div>
-                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">Pricing</h3>
+                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">{PARAMETER_GROUPS.pricing}</h3>
                 <div className="space-y-3">
-                  {/* Revenue per Mile */}
+                  {/* Pricing Mode */}
                   <div>
-                    <label className="text-sm font-medium text-gray-700 mb-1 block">Revenue / Mile</label>
-                    <div className="text-xs text-gray-500 mb-2">${inputs.revenuePerMile.toFixed(2)}</div>
+                    <label className="text-sm font-medium text-gray-700 mb-1 block">Pricing Model</label>
+                    <select
+                      value={inputs.pricingMode}
+                      onChange={(e) => handleInputChange('pricingMode', e.target.value as PricingMode)}
+                      className="w-full px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    >
+                      {(Object.keys(PRICING_MODES) as PricingMode[]).map(mode => (
+                        <option key={mode} value={mode}>{PRICING_MODES[mode]}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {renderSliders('pricing')}
+
+                  {/* Derived trip economics */}
+                  {inputs.pricingMode === 'trip' && (
+                    <div className="text-xs text-gray-600 bg-gray-50 rounded-md p-2 space-y-1">
+                      <div className="flex justify-between"><span>{localizeLabel('Revenue / paid mile', units)}</span><span className="font-semibold">{formatMetric('revenuePerPaidMile', currentMetrics.revenuePerPaidMile, units)}</span></div>
+                      <div className="flex justify-between"><span>Revenue / trip</span><span className="font-semibold">{formatMetric('revenuePerTrip', currentMetrics.revenuePerTrip, units)}</span></div>
+                      <div className="flex justify-between"><span>Trips / vehicle / day</span><span className="font-semibold">{unitFmt.number(currentMetrics.tripsPerVehiclePerDay, 1)}</span></div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Advanced assumptions */}
+              <div>
+                <button
+                  onClick={() => setShowAdvanced(prev => !prev)}
+                  className="w-full flex items-center justify-between text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200"
+                >
+                  <span>{PARAMETER_GROUPS.advanced}</span>
+                  <span className="text-xs text-gray-500">{showAdvanced ? 'Hide' : 'Show'}</span>
+                </button>
+                {showAdvanced && (
+                  <div className="space-y-3">
+                    {renderSliders('advanced')}
+                  </div>
+                )}
+              </div>
+
+              {/* Units & Currency */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">Units & currency</h3>
+                <UnitSettingsPanel units={units} onChange={setUnits} />
+              </div>
+
+              {/* Presets */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">Presets</h3>
+                <PresetManager
+                  userPresets={userPresets}
+                  teamPresets={teamPresets}
+                  teamError={teamPresetsError}
+                  onSelect={handlePresetSelect}
+                  onCreate={handleCreatePreset}
+                  onEdit={handleEditPreset}
+                  onOverwrite={handleOverwritePreset}
+                  onDelete={handleDeletePreset}
+                  onPublish={handlePublishPreset}
+                />
+              </div>
+
+              {/* Reference Lines */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">Reference lines</h3>
+                <ReferenceLineEditor
+                  lines={referenceLines}
+                  metrics={Object.fromEntries((Object.keys(Y_AXIS_METRICS) as YAxisMetric[]).map(metric => [metric, localizeLabel(Y_AXIS_METRICS[metric].label, units)]))}
+                  units={units}
+                  onAdd={handleAddReferenceLine}
+                  onChange={setReferenceLines}
+                />
+              </div>
+
+              {/* Saved Scenarios */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-3 pb-2 border-b border-gray-200">Scenarios</h3>
+                <ScenarioList
+                  scenarios={scenarioStore.scenarios}
+                  pinnedIds={scenarioStore.pinnedIds}
+                  onSave={handleSaveScenario}
+                  onLoad={handleLoadScenario}
+                  onRename={handleRenameScenario}
+                  onDuplicate={handleDuplicateScenario}
+                  onDelete={handleDeleteScenario}
+                  onTogglePin={handleTogglePin}
+                />
+                <div className="flex flex-wrap gap-3 mt-3 text-xs">
+                  <button onClick={() => handleExport('json')} className="text-blue-600 hover:text-blue-700 hover:underline">Export JSON</button>
+                  <button onClick={() => handleExport('csv')} className="text-blue-600 hover:text-blue-700 hover:underline">Export CSV</button>
+                  <label className="text-blue-600 hover:text-blue-700 hover:underline cursor-pointer">
+                    Import…
                     <input
-                      type="range"
-                      min="1.00"
-                      max="5.00"
-                      step="0.10"
-                      value={inputs.revenuePerMile}
-                      onChange={(e) => handleInputChange('revenuePerMile', Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                      style={{
-                        background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${((inputs.revenuePerMile - 1.00) / (5.00 - 1.00)) * 100}%, #e5e7eb ${((inputs.revenuePerMile - 1.00) / (5.00 - 1.00)) * 100}%, #e5e7eb 100%)`
+                      type="file"
+                      accept=".json,.csv,application/json,text/csv"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0]
+                        if (file) handleImport(file)
+                        e.target.value = ''
                       }}
                     />
-                  </div>
+                  </label>
                 </div>
               </div>
             </div>
@@ -602,143 +1125,332 @@ const App: React.FC = () => {
           <div className="order-1 lg:order-2 lg:col-span-2 flex flex-col lg:h-full overflow-visible lg:overflow-hidden">
             {/* KPIs */}
             <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 sm:flex sm:items-center sm:space-x-6">
+              <div className="grid grid-cols-3 gap-3 sm:flex sm:items-center sm:space-x-6">
                 <div className="text-center">
                   <div className="text-2xl font-bold text-gray-900">
-                    ${isFinite(currentMetrics.totalCostPerMile) ? currentMetrics.totalCostPerMile.toFixed(2) : '∞'}
+                    {isFinite(currentMetrics.totalCostPerMile) ? formatMetric('totalCostPerMile', currentMetrics.totalCostPerMile, units) : '∞'}
                   </div>
-                  <div className="text-xs text-gray-500 mt-1">Cost / mile</div>
+                  <div className="text-xs text-gray-500 mt-1">{localizeLabel('Cost / mile', units)}</div>
                 </div>
                 
                 <div className="text-center">
                   <div className={`text-2xl font-bold ${
                     currentMetrics.marginPerMile < 0 ? 'text-red-600' : 'text-gray-900'
                   }`}>
-                    ${isFinite(currentMetrics.marginPerMile) ? currentMetrics.marginPerMile.toFixed(2) : '-∞'}
+                    {isFinite(currentMetrics.marginPerMile) ? formatMetric('marginPerMile', currentMetrics.marginPerMile, units) : '-∞'}
                   </div>
-                  <div className="text-xs text-gray-500 mt-1">Margin / mile</div>
+                  <div className="text-xs text-gray-500 mt-1">{localizeLabel('Margin / mile', units)}</div>
                 </div>
 
-                <div className="text-center" title="Minimum utilization required for margin per mile to reach $0, holding all other parameters constant.">
+                <div className="text-center" title={localizeLabel('Minimum utilization required for margin per mile to reach zero, holding all other parameters constant.', units)}>
                   <div className="text-2xl font-bold text-gray-900">
-                    {breakEvenUtilizationPercent !== null ? `${breakEvenUtilizationPercent.toFixed(1)}%` : 'n/a'}
+                    {breakEvenUtilizationPercent !== null ? `${unitFmt.number(breakEvenUtilizationPercent, 1)}%` : 'n/a'}
                   </div>
                   <div className="text-xs text-gray-500 mt-1">Break-even utilization</div>
                 </div>
+
+                <div className="text-center" title={`Fleet NPV ${unitFmt.compactMoney(toDisplay(investmentResult.fleetNpv, 'money', units))} at ${investmentInputs.discountRatePercent}% discount rate`}>
+                  <div className={`text-2xl font-bold ${
+                    investmentResult.npvPerVehicle < 0 ? 'text-red-600' : 'text-gray-900'
+                  }`}>
+                    {unitFmt.compactMoney(toDisplay(investmentResult.npvPerVehicle, 'money', units))}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">NPV / vehicle</div>
+                </div>
+
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {formatIrr(investmentResult.irrPercent)}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">IRR</div>
+                </div>
+
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {formatPayback(investmentResult.paybackMonths)}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">Payback</div>
+                </div>
               </div>
 
               <div className="w-full sm:w-auto">
                 <span className={`px-3 py-1 rounded text-white text-sm font-medium ${
-                  currentMetrics.marginPerMile < 0 ? 'bg-red-500' : 
-                  currentMetrics.marginPerMile <= 0.25 ? 'bg-yellow-500' : 'bg-green-500'
+                  currentStatus === 'Losing' ? 'bg-red-500' : 
+                  currentStatus === 'Break-even' ? 'bg-yellow-500' : 'bg-green-500'
                 }`}>
-                  {currentMetrics.marginPerMile < 0 ? 'Status: Losing' : 
-                   currentMetrics.marginPerMile <= 0.25 ? 'Status: Break-even' : 'Status: Profitable'}
+                  Status: {currentStatus}
                 </span>
               </div>
             </div>
 
+            <FleetKpiRow metrics={currentMetrics} units={units} />
+
             {/* Chart */}
-            <div className="h-[320px] sm:h-[380px] lg:flex-1 lg:min-h-0">
+            <div ref={chartRef} className={chartMode === 'curve' ? 'h-[320px] sm:h-[380px] lg:flex-1 lg:min-h-0' : 'lg:flex-1 lg:min-h-0 lg:overflow-y-auto'}>
               <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between mb-2">
-                <h3 className="text-lg font-semibold text-gray-800">Cost Analysis</h3>
-                <select
-                  value={xAxisVariable}
-                  onChange={(e) => setXAxisVariable(e.target.value as XAxisVariable)}
-                  className="w-full sm:w-auto px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-                >
-                  <option value="utilization">Utilization (%)</option>
-                  <option value="deadhead">Deadhead (%)</option>
-                  <option value="vehiclesPerOperator">Vehicles per Operator</option>
-                </select>
-              </div>
-              <div className="h-full">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={chartData} margin={{ top: 20, right: 30, left: 40, bottom: 40 }}>
-                    <CartesianGrid strokeDasharray="2 2" stroke="#f0f0f0" />
-                    <XAxis 
-                      dataKey="x" 
-                      axisLine={false}
-                      tickLine={false}
-                      tick={{ fontSize: 12, fill: '#666' }}
-                      label={{ value: getXAxisLabel(), position: 'insideBottom', offset: -5, style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
-                    />
-                    <YAxis 
-                      axisLine={false}
-                      tickLine={false}
-                      tick={{ fontSize: 12, fill: '#666' }}
-                      label={{ value: 'Total Cost / Mile ($)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
-                      domain={[0, 10]}
-                    />
-                    <Tooltip 
-                      formatter={(value: number) => [`$${value.toFixed(2)}`, 'Cost per Mile']}
-                      labelFormatter={(label) => `${getXAxisLabel()}: ${label}`}
-                      contentStyle={{ 
-                        backgroundColor: 'white', 
-                        border: '1px solid #ccc', 
-                        borderRadius: '4px',
-                        fontSize: '12px'
-                      }}
-                    />
-                    
-                    {/* Reference Lines */}
-                    <ReferenceLine 
-                      y={2.0} 
-                      stroke="#ff6b6b" 
-                      strokeDasharray="4 4" 
-                      label={{ value: "Break-even $2", position: "top", style: { fontSize: '10px', fill: '#ff6b6b' } }} 
-                    />
-                    <ReferenceLine 
-                      y={1.5} 
-                      stroke="#51cf66" 
-                      strokeDasharray="4 4" 
-                      label={{ value: "Healthy $1.50", position: "top", style: { fontSize: '10px', fill: '#51cf66' } }} 
-                    />
-                    
-                    {/* Break-even Utilization Line (only when X-axis is Utilization) */}
-                    {xAxisVariable === 'utilization' && breakEvenUtilizationPercent !== null && (
-                      <ReferenceLine 
-                        x={breakEvenUtilizationPercent} 
-                        stroke="#9333ea" 
-                        strokeDasharray="3 3" 
-                        label={{ value: "Break-even", position: "top", style: { fontSize: '10px', fill: '#9333ea' } }} 
-                      />
+                <div className="flex items-center gap-3">
+                  <h3 className="text-lg font-semibold text-gray-800">Cost Analysis</h3>
+                  <div className="flex flex-wrap rounded-md border border-gray-300 overflow-hidden text-xs">
+                    {(Object.keys(CHART_MODES) as ChartMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setChartMode(mode)}
+                        className={`px-2 py-1 ${chartMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                      >
+                        {CHART_MODES[mode]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {(chartMode === 'curve' || chartMode === 'breakdown') && (
+                  <div className="flex flex-col gap-2 sm:flex-row">
+                    {chartMode === 'curve' && (
+                      <select
+                        value={yAxisMetric}
+                        onChange={(e) => setYAxisMetric(e.target.value as YAxisMetric)}
+                        className="w-full sm:w-auto px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      >
+                        {(Object.keys(Y_AXIS_METRICS) as YAxisMetric[]).map(metric => (
+                          <option key={metric} value={metric}>{localizeLabel(Y_AXIS_METRICS[metric].label, units)}</option>
+                        ))}
+                      </select>
                     )}
-                    
-                    {/* Main Line */}
-                    <Line 
-                      type="monotone" 
-                      dataKey="totalCostPerMile" 
-                      stroke="#3b82f6" 
-                      strokeWidth={2}
-                      dot={false}
-                    />
-                    
-                    {/* Current Point */}
-                    <Line 
-                      type="monotone" 
-                      dataKey="totalCostPerMile" 
-                      stroke="transparent"
-                      dot={(props: any) => {
-                        const entry = chartData[props.index]
-                        if (entry?.isCurrentPoint) {
-                          return (
-                            <circle 
-                              cx={props.cx} 
-                              cy={props.cy} 
-                              r={5} 
-                              fill="#3b82f6"
-                              stroke="#ffffff"
-                              strokeWidth={2}
-                            />
-                          )
-                        }
-                        return <circle r={0} />
-                      }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
+                    <select
+                      value={xAxisVariable}
+                      onChange={(e) => setXAxisVariable(e.target.value as XAxisVariable)}
+                      className="w-full sm:w-auto px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    >
+                      {(Object.keys(NUMERIC_INPUTS) as XAxisVariable[]).map(variable => (
+                        <option key={variable} value={variable}>{parameterLabel(variable, units)}</option>
+                      ))}
+                    </select>
+                    {canUseLogScale(xAxisVariable) && (
+                      <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap">
+                        <input type="checkbox" checked={xAxisLog} onChange={(e) => setXAxisLog(e.target.checked)} />
+                        Log X
+                      </label>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center gap-2 text-xs text-gray-500 shrink-0">
+                  Export
+                  {(['png', 'svg', 'csv'] as const).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleChartExport(format)}
+                      className="px-2 py-0.5 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 uppercase"
+                    >
+                      {format}
+                    </button>
+                  ))}
+                </div>
               </div>
+              {chartMode === 'compare' ? (
+                <ComparePanel scenarios={pinnedScenarios} units={units} />
+              ) : chartMode === 'optimizer' ? (
+                <OptimizerPanel
+                  inputs={inputs}
+                  optimizer={optimizerInputs}
+                  units={units}
+                  onChange={setOptimizerInputs}
+                  onApply={(patch) => setInputs(prev => ({ ...prev, ...patch }))}
+                />
+              ) : chartMode === 'goalSeek' ? (
+                <GoalSeekPanel
+                  inputs={inputs}
+                  goal={goalSeekInputs}
+                  units={units}
+                  onChange={setGoalSeekInputs}
+                  onApply={handleInputChange}
+                />
+              ) : chartMode === 'heatmap' ? (
+                <HeatmapPanel inputs={inputs} heatmap={heatmapInputs} units={units} onChange={setHeatmapInputs} />
+              ) : chartMode === 'sensitivity' ? (
+                <SensitivityPanel
+                  inputs={inputs}
+                  metrics={currentMetrics}
+                  sensitivity={sensitivityInputs}
+                  units={units}
+                  onChange={setSensitivityInputs}
+                />
+              ) : chartMode === 'uncertainty' ? (
+                <UncertaintyPanel
+                  inputs={inputs}
+                  uncertainty={uncertaintyInputs}
+                  result={uncertaintyResult}
+                  units={units}
+                  onChange={setUncertaintyInputs}
+                />
+              ) : chartMode === 'breakdown' ? (
+                <CostBreakdownPanel
+                  sweepData={chartData}
+                  xAxisLabel={getXAxisLabel()}
+                  metrics={metricsToDisplay(currentMetrics, units)}
+                  units={units}
+                  variableCostItems={currentVariableCostItems ? variableCostItemsToDisplay(currentVariableCostItems, units) : undefined}
+                />
+              ) : chartMode === 'projection' ? (
+                <ProjectionPanel
+                  inputs={inputs}
+                  projection={projectionInputs}
+                  units={units}
+                  onChange={setProjectionInputs}
+                />
+              ) : chartMode === 'investment' ? (
+                <InvestmentPanel
+                  investment={investmentInputs}
+                  result={investmentResult}
+                  units={units}
+                  onChange={setInvestmentInputs}
+                />
+              ) : (
+                <div className="h-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 40, bottom: 40 }}>
+                      <CartesianGrid strokeDasharray="2 2" stroke="#f0f0f0" />
+                      <XAxis 
+                        dataKey="x" 
+                        type="number"
+                        scale={logXAxis ? 'log' : 'linear'}
+                        domain={['dataMin', 'dataMax']}
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fontSize: 12, fill: '#666' }}
+                        tickFormatter={(value: number) => formatXValue(value, unitFmt)}
+                        label={{ value: getXAxisLabel(), position: 'insideBottom', offset: -5, style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
+                      />
+                      <YAxis 
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fontSize: 12, fill: '#666' }}
+                        tickFormatter={yAxisConfig.displayRange ? undefined : (value: number) => yAxisConfig.format(value, unitFmt)}
+                        label={{ value: getYAxisLabel(), angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
+                        domain={['auto', 'auto']}
+                      />
+                      <Tooltip 
+                        formatter={(value: number | number[], name: string) => Array.isArray(value)
+                          ? [`${yAxisConfig.format(value[0], unitFmt)} – ${yAxisConfig.format(value[1], unitFmt)}`, name]
+                          : [yAxisConfig.format(value, unitFmt), name === 'y' ? localizeLabel(yAxisConfig.label, units) : name]}
+                        labelFormatter={(label: number) => `${getXAxisLabel()}: ${formatXValue(label, unitFmt)}`}
+                        contentStyle={{ 
+                          backgroundColor: 'white', 
+                          border: '1px solid #ccc', 
+                          borderRadius: '4px',
+                          fontSize: '12px'
+                        }}
+                      />
+                      
+                      {/* Reference Lines */}
+                      {yAxisMetric === 'totalCostPerMile' ? (
+                        // Cost at or above revenue per paid mile loses money on every mile
+                        <ReferenceLine 
+                          y={metricToDisplay('revenuePerPaidMile', currentMetrics.revenuePerPaidMile, units)} 
+                          stroke="#ff6b6b" 
+                          strokeDasharray="4 4" 
+                          ifOverflow="extendDomain"
+                          label={{ value: `Break-even ${formatMetric('revenuePerPaidMile', currentMetrics.revenuePerPaidMile, units)}`, position: "top", style: { fontSize: '10px', fill: '#ff6b6b' } }} 
+                        />
+                      ) : yAxisMetric === 'breakEvenUtilizationPercent' ? (
+                        <ReferenceLine 
+                          y={inputs.utilizationPercent} 
+                          stroke="#9333ea" 
+                          strokeDasharray="4 4" 
+                          label={{ value: "Current utilization", position: "top", style: { fontSize: '10px', fill: '#9333ea' } }} 
+                        />
+                      ) : yAxisMetric !== 'fleetRevenuePerYear' && (
+                        <ReferenceLine 
+                          y={0} 
+                          stroke="#ff6b6b" 
+                          strokeDasharray="4 4" 
+                          label={{ value: "Break-even", position: "top", style: { fontSize: '10px', fill: '#ff6b6b' } }} 
+                        />
+                      )}
+                      
+                      {/* User Reference Lines */}
+                      {referenceLines.filter(line => line.metric === yAxisMetric).map(line => (
+                        <ReferenceLine
+                          key={line.id}
+                          y={metricToDisplay(line.metric, line.value, units)}
+                          stroke={line.color}
+                          strokeDasharray="4 4"
+                          ifOverflow="extendDomain"
+                          label={{ value: `${line.label} ${yAxisConfig.format(metricToDisplay(line.metric, line.value, units), unitFmt)}`, position: "top", style: { fontSize: '10px', fill: line.color } }}
+                        />
+                      ))}
+                      
+                      {/* Break-even Utilization Line (only when X-axis is Utilization) */}
+                      {xAxisVariable === 'utilizationPercent' && breakEvenUtilizationPercent !== null && (
+                        <ReferenceLine 
+                          x={breakEvenUtilizationPercent} 
+                          stroke="#9333ea" 
+                          strokeDasharray="3 3" 
+                          label={{ value: "Break-even", position: "top", style: { fontSize: '10px', fill: '#9333ea' } }} 
+                        />
+                      )}
+                      
+                      {/* Monte Carlo Fan Band */}
+                      {hasUncertainty && (
+                        <Area
+                          type="monotone"
+                          dataKey="band"
+                          name="P10–P90"
+                          stroke="none"
+                          fill="#3b82f6"
+                          fillOpacity={0.15}
+                          isAnimationActive={false}
+                        />
+                      )}
+                      
+                      {/* Main Line */}
+                      <Line 
+                        type="monotone" 
+                        dataKey="y" 
+                        stroke="#3b82f6" 
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                      
+                      {/* Pinned Scenarios */}
+                      {pinnedScenarios.map((scenario, i) => (
+                        <Line
+                          key={scenario.id}
+                          type="monotone"
+                          dataKey={(entry: { pinned: number[] }) => entry.pinned[i]}
+                          name={scenario.name}
+                          stroke={SCENARIO_COLORS[i]}
+                          strokeWidth={2}
+                          strokeDasharray="5 3"
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                      
+                      {/* Current Point */}
+                      <Line 
+                        type="monotone" 
+                        dataKey="y" 
+                        stroke="transparent"
+                        dot={(props: any) => {
+                          const entry = chartData[props.index]
+                          if (entry?.isCurrentPoint) {
+                            return (
+                              <circle 
+                                cx={props.cx} 
+                                cy={props.cy} 
+                                r={5} 
+                                fill="#3b82f6"
+                                stroke="#ffffff"
+                                strokeWidth={2}
+                              />
+                            )
+                          }
+                          return <circle r={0} />
+                        }}
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
             </div>
 
             {/* Chat UI */}
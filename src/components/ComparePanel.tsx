@@ -0,0 +1,232 @@
+import React, { useMemo, useState } from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import {
+  SimulationInputs,
+  SimulationMetrics,
+  NumericInput,
+  NUMERIC_INPUTS,
+  DEPRECIATION_METHODS,
+  PRICING_MODES,
+  MILEAGE_MODELS,
+  VARIABLE_COST_MODES,
+  ENERGY_SOURCES,
+  calculateMetrics,
+} from '../model/economics'
+import { PARAMETERS } from '../model/parameters'
+import { Scenario, SCENARIO_COLORS } from '../utils/scenarios'
+import { UnitSettings, formatParameter, localizeLabel, metricToDisplay, parameterLabel, toDisplay, unitFormat } from '../utils/units'
+import { CostComponent, COST_COMPONENTS } from './CostBreakdownPanel'
+
+interface ComparePanelProps {
+  scenarios: Scenario[]
+  units: UnitSettings
+}
+
+// Stacked components are capped like the cost curve so a zero-mileage scenario doesn't swamp the others
+const MAX_DISPLAY_COST_PER_MILE = 10
+
+const formatSigned = (value: number, format: (value: number) => string) =>
+  value > 0 ? `+${format(value)}` : value < 0 ? `-${format(-value)}` : '±0'
+
+// Values in model units, formatted in the user's; higher-is-better flags colour the deltas
+const KPIS: {
+  label: string
+  value: (m: SimulationMetrics) => number | null
+  format: (value: number, units: UnitSettings) => string
+  higherIsBetter: boolean
+}[] = [
+  {
+    label: 'Cost / mile',
+    value: (m) => m.totalCostPerMile,
+    format: (v, units) => isFinite(v) ? unitFormat(units).money(metricToDisplay('totalCostPerMile', v, units)) : '∞',
+    higherIsBetter: false,
+  },
+  {
+    label: 'Margin / mile',
+    value: (m) => m.marginPerMile,
+    format: (v, units) => isFinite(v) ? unitFormat(units).money(metricToDisplay('marginPerMile', v, units)) : v > 0 ? '∞' : '-∞',
+    higherIsBetter: true,
+  },
+  { label: 'Break-even utilization', value: (m) => m.breakEvenUtilizationPercent, format: (v) => `${v.toFixed(1)}%`, higherIsBetter: false },
+  {
+    label: 'Paid miles / vehicle / day',
+    value: (m) => m.paidMilesPerDay,
+    format: (v, units) => unitFormat(units).number(metricToDisplay('paidMilesPerDay', v, units), 0),
+    higherIsBetter: true,
+  },
+  {
+    label: 'Fleet revenue / yr',
+    value: (m) => m.fleetRevenuePerYear,
+    format: (v, units) => unitFormat(units).compactMoney(metricToDisplay('fleetRevenuePerYear', v, units)),
+    higherIsBetter: true,
+  },
+  {
+    label: 'Fleet profit / yr',
+    value: (m) => m.fleetProfitPerYear,
+    format: (v, units) => unitFormat(units).compactMoney(metricToDisplay('fleetProfitPerYear', v, units)),
+    higherIsBetter: true,
+  },
+]
+
+// Mode selectors are shown by their labels; everything else is a number
+const MODE_INPUTS: { key: keyof SimulationInputs; label: string; labels: Record<string, string> }[] = [
+  { key: 'pricingMode', label: 'Pricing', labels: PRICING_MODES },
+  { key: 'mileageModel', label: 'Daily miles', labels: MILEAGE_MODELS },
+  { key: 'depreciationMethod', label: 'Depreciation', labels: DEPRECIATION_METHODS },
+  { key: 'variableCostMode', label: 'Variable cost', labels: VARIABLE_COST_MODES },
+  { key: 'energySource', label: 'Energy', labels: ENERGY_SOURCES },
+]
+
+export const ComparePanel: React.FC<ComparePanelProps> = ({ scenarios, units }) => {
+  const f = unitFormat(units)
+  const [showAllInputs, setShowAllInputs] = useState(false)
+  const metrics = useMemo(() => scenarios.map(scenario => calculateMetrics(scenario.inputs)), [scenarios])
+
+  if (scenarios.length < 2) {
+    return (
+      <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-700">
+        Pin two to four saved scenarios in the Scenarios section to compare them side by side.
+      </div>
+    )
+  }
+
+  const inputRows = [
+    ...MODE_INPUTS.map(({ key, label, labels }) => ({
+      key,
+      label,
+      values: scenarios.map(scenario => labels[String(scenario.inputs[key])] ?? String(scenario.inputs[key])),
+    })),
+    ...(Object.keys(NUMERIC_INPUTS) as NumericInput[]).map(key => ({
+      key,
+      label: parameterLabel(key, units),
+      values: scenarios.map(scenario => formatParameter(PARAMETERS[key], scenario.inputs[key], units)),
+    })),
+  ]
+  const visibleRows = showAllInputs ? inputRows : inputRows.filter(row => row.values.some(value => value !== row.values[0]))
+
+  const maxDisplayCost = toDisplay(MAX_DISPLAY_COST_PER_MILE, 'money-per-distance', units)
+  const breakdownData = scenarios.map((scenario, i) => ({
+    name: scenario.name,
+    ...Object.fromEntries((Object.keys(COST_COMPONENTS) as CostComponent[]).map(component =>
+      [component, Math.min(metricToDisplay(component, metrics[i][component], units), maxDisplayCost)]
+    )),
+  }))
+
+  const header = (
+    <tr className="text-gray-500">
+      <th className="text-left font-medium py-1" />
+      {scenarios.map((scenario, i) => (
+        <th key={scenario.id} className="text-right font-medium py-1 px-2">
+          <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: SCENARIO_COLORS[i] }} />
+          {scenario.name}
+        </th>
+      ))}
+    </tr>
+  )
+
+  return (
+    <div className="h-full flex flex-col gap-4">
+      {/* KPIs, deltas against the first pinned scenario */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>{header}</thead>
+          <tbody>
+            {KPIS.map(kpi => {
+              const base = kpi.value(metrics[0])
+              return (
+                <tr key={kpi.label} className="text-gray-700">
+                  <td className="py-1 pr-2">{localizeLabel(kpi.label, units)}</td>
+                  {metrics.map((m, i) => {
+                    const value = kpi.value(m)
+                    const delta = value !== null && base !== null && isFinite(value) && isFinite(base) ? value - base : null
+                    const better = delta !== null && (kpi.higherIsBetter ? delta > 0 : delta < 0)
+                    return (
+                      <td key={scenarios[i].id} className="py-1 px-2 text-right">
+                        <div className="font-medium text-gray-900">{value !== null ? kpi.format(value, units) : 'n/a'}</div>
+                        {i > 0 && delta !== null && (
+                          <div className={`text-[10px] ${delta === 0 ? 'text-gray-400' : better ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatSigned(delta, (v) => kpi.format(v, units))}
+                          </div>
+                        )}
+                      </td>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Input diffs */}
+      <div className="overflow-x-auto">
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="text-xs font-medium text-gray-700">Inputs</h4>
+          <label className="flex items-center gap-1 text-xs text-gray-500">
+            <input type="checkbox" checked={showAllInputs} onChange={(e) => setShowAllInputs(e.target.checked)} />
+            Show unchanged
+          </label>
+        </div>
+        {visibleRows.length === 0 ? (
+          <div className="text-xs text-gray-400">All inputs are identical.</div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>{header}</thead>
+            <tbody>
+              {visibleRows.map(row => (
+                <tr key={row.key} className="text-gray-700">
+                  <td className="py-1 pr-2">{row.label}</td>
+                  {row.values.map((value, i) => (
+                    <td
+                      key={scenarios[i].id}
+                      className={`py-1 px-2 text-right ${i > 0 && value !== row.values[0] ? 'bg-yellow-50 font-medium text-gray-900' : ''}`}
+                    >
+                      {value}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Cost breakdowns */}
+      <div className="h-[220px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={breakdownData} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="2 2" stroke="#f0f0f0" />
+            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#666' }} />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              tickFormatter={(value: number) => f.money(value, 2)}
+              label={{ value: localizeLabel('Cost / Mile ($)', units), angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
+            />
+            <Tooltip
+              formatter={(value: number, name: string) => [f.money(value, 2), name]}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                fontSize: '12px'
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            {(Object.keys(COST_COMPONENTS) as CostComponent[]).map(component => (
+              <Bar
+                key={component}
+                dataKey={component}
+                name={COST_COMPONENTS[component].label}
+                stackId="cost"
+                fill={COST_COMPONENTS[component].color}
+                isAnimationActive={false}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
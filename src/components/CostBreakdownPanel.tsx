@@ -0,0 +1,166 @@
+import React, { useMemo } from 'react'
+import { AreaChart, Area, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts'
+import { SimulationMetrics, VariableCostItem, VARIABLE_COST_ITEMS } from '../model/economics'
+import { UnitSettings, currencySymbol, localizeLabel, toDisplay, unitFormat } from '../utils/units'
+
+export interface CostBreakdownPoint {
+  x: number
+  vehicleCostPerPaidMile: number
+  teleopsCostPerPaidMile: number
+  variableCostPerPaidMile: number
+  isCurrentPoint: boolean
+}
+
+// Sweep points and metrics arrive already converted to `units`
+interface CostBreakdownPanelProps {
+  sweepData: CostBreakdownPoint[]
+  xAxisLabel: string
+  metrics: SimulationMetrics
+  units: UnitSettings
+  // Line items under itemized variable cost; the waterfall shows them in place of one variable step
+  variableCostItems?: Record<VariableCostItem, number>
+}
+
+export type CostComponent = 'vehicleCostPerPaidMile' | 'teleopsCostPerPaidMile' | 'variableCostPerPaidMile'
+
+export const COST_COMPONENTS: Record<CostComponent, { label: string; color: string }> = {
+  vehicleCostPerPaidMile: { label: 'Vehicle', color: '#3b82f6' },
+  teleopsCostPerPaidMile: { label: 'Teleops & ops', color: '#f59e0b' },
+  variableCostPerPaidMile: { label: 'Variable', color: '#9ca3af' },
+}
+
+// Stacked components are capped like the cost curve so a near-zero-mileage point doesn't flatten the chart
+const MAX_DISPLAY_COST_PER_MILE = 10
+
+const tooltipStyle = {
+  backgroundColor: 'white',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  fontSize: '12px'
+}
+
+export const CostBreakdownPanel: React.FC<CostBreakdownPanelProps> = ({ sweepData, xAxisLabel, metrics, units, variableCostItems }) => {
+  const f = unitFormat(units)
+  const formatPerMile = (value: number) => isFinite(value) ? f.money(value, 2) : '∞'
+  const maxDisplayCost = toDisplay(MAX_DISPLAY_COST_PER_MILE, 'money-per-distance', units)
+
+  const areaData = useMemo(() => sweepData.map(point => ({
+    x: point.x,
+    vehicleCostPerPaidMile: Math.min(point.vehicleCostPerPaidMile, maxDisplayCost),
+    teleopsCostPerPaidMile: Math.min(point.teleopsCostPerPaidMile, maxDisplayCost),
+    variableCostPerPaidMile: Math.min(point.variableCostPerPaidMile, maxDisplayCost),
+  })), [sweepData, maxDisplayCost])
+
+  const currentX = sweepData.find(point => point.isCurrentPoint)?.x
+
+  // Waterfall: each bar spans [low, high]; cost steps walk down from revenue to margin
+  const waterfallData = useMemo(() => {
+    const steps: { name: string; range: [number, number]; value: number; color: string }[] = []
+    let level = metrics.revenuePerPaidMile
+    steps.push({ name: 'Revenue', range: [0, level], value: level, color: '#51cf66' })
+    const costs = (Object.keys(COST_COMPONENTS) as CostComponent[]).flatMap(component =>
+      component === 'variableCostPerPaidMile' && variableCostItems
+        ? (Object.keys(VARIABLE_COST_ITEMS) as VariableCostItem[]).map(item => ({
+            name: VARIABLE_COST_ITEMS[item],
+            cost: variableCostItems[item],
+            color: COST_COMPONENTS[component].color,
+          }))
+        : [{ name: COST_COMPONENTS[component].label, cost: metrics[component], color: COST_COMPONENTS[component].color }]
+    )
+    for (const { name, cost, color } of costs) {
+      if (!isFinite(cost)) continue
+      const next = level - cost
+      steps.push({ name, range: [next, level], value: -cost, color })
+      level = next
+    }
+    const margin = isFinite(metrics.marginPerMile) ? metrics.marginPerMile : level
+    steps.push({ name: 'Margin', range: [Math.min(0, margin), Math.max(0, margin)], value: margin, color: margin < 0 ? '#ff6b6b' : '#51cf66' })
+    return steps
+  }, [metrics, variableCostItems])
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Components across the sweep */}
+      <div className="flex-1 min-h-[220px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={areaData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="2 2" stroke="#f0f0f0" />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              label={{ value: xAxisLabel, position: 'insideBottom', offset: -5, style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              domain={[0, maxDisplayCost]}
+              allowDataOverflow
+              label={{ value: localizeLabel('Cost / Mile ($)', units), angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
+            />
+            <Tooltip
+              formatter={(value: number, name: string) => [formatPerMile(value), name]}
+              labelFormatter={(label) => `${xAxisLabel}: ${label}`}
+              contentStyle={tooltipStyle}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <ReferenceLine
+              y={metrics.revenuePerPaidMile}
+              stroke="#ff6b6b"
+              strokeDasharray="4 4"
+              label={{ value: localizeLabel('Revenue / mile', units), position: 'top', style: { fontSize: '10px', fill: '#ff6b6b' } }}
+            />
+            {currentX !== undefined && (
+              <ReferenceLine x={currentX} stroke="#9333ea" strokeDasharray="3 3" />
+            )}
+            {(Object.keys(COST_COMPONENTS) as CostComponent[]).map(component => (
+              <Area
+                key={component}
+                type="monotone"
+                dataKey={component}
+                name={COST_COMPONENTS[component].label}
+                stackId="cost"
+                stroke={COST_COMPONENTS[component].color}
+                fill={COST_COMPONENTS[component].color}
+                fillOpacity={0.6}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Revenue to margin at the current point */}
+      <div className="h-[220px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={waterfallData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="2 2" stroke="#f0f0f0" />
+            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#666' }} />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              tickFormatter={(value: number) => f.money(value, 2)}
+            />
+            <Tooltip
+              formatter={(_range: unknown, _name: string, item: { payload?: { value: number } }) => [
+                formatPerMile(item.payload?.value ?? 0),
+                `${currencySymbol(units)} / ${f.distance}`,
+              ]}
+              contentStyle={tooltipStyle}
+            />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            <Bar dataKey="range" isAnimationActive={false}>
+              {waterfallData.map(step => (
+                <Cell key={step.name} fill={step.color} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import React from 'react'
+import { SimulationMetrics } from '../model/economics'
+import { UnitSettings, metricToDisplay, unitFormat } from '../utils/units'
+
+interface FleetKpiRowProps {
+  metrics: SimulationMetrics
+  units: UnitSettings
+}
+
+// Second KPI row: whole-fleet P&L (annual headline, daily underneath)
+export const FleetKpiRow: React.FC<FleetKpiRowProps> = ({ metrics, units }) => {
+  const f = unitFormat(units)
+  const distance = (metric: keyof SimulationMetrics) => f.compactNumber(metricToDisplay(metric, metrics[metric] ?? 0, units))
+  const money = (metric: keyof SimulationMetrics) => f.compactMoney(metricToDisplay(metric, metrics[metric] ?? 0, units))
+  const kpis = [
+    { label: units.distance === 'km' ? 'Paid km' : 'Paid miles', annual: distance('fleetPaidMilesPerYear'), daily: distance('fleetPaidMilesPerDay'), negative: false },
+    { label: 'Revenue', annual: money('fleetRevenuePerYear'), daily: money('fleetRevenuePerDay'), negative: false },
+    { label: 'Variable cost', annual: money('fleetVariableCostPerYear'), daily: money('fleetVariableCostPerDay'), negative: false },
+    { label: 'Fixed cost', annual: money('fleetFixedCostPerYear'), daily: money('fleetFixedCostPerDay'), negative: false },
+    { label: 'Contribution', annual: money('fleetContributionPerYear'), daily: money('fleetContributionPerDay'), negative: metrics.fleetContributionPerDay < 0 },
+    { label: 'Fleet profit', annual: money('fleetProfitPerYear'), daily: money('fleetProfitPerDay'), negative: metrics.fleetProfitPerDay < 0 },
+  ]
+
+  return (
+    <div className="grid grid-cols-3 gap-3 sm:grid-cols-6 mt-3 pt-3 border-t border-gray-100">
+      {kpis.map(kpi => (
+        <div key={kpi.label} className="text-center">
+          <div className={`text-lg font-bold ${kpi.negative ? 'text-red-600' : 'text-gray-900'}`}>
+            {kpi.annual}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">{kpi.label} / yr</div>
+          <div className="text-[10px] text-gray-400">{kpi.daily} / day</div>
+        </div>
+      ))}
+    </div>
+  )
+}
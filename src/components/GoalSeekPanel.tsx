@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react'
+import { SimulationInputs, NumericInput } from '../model/economics'
+import { GoalSeekInputs, GoalSeekMetric, GOAL_SEEK_METRICS, goalSeek } from '../model/goalSeek'
+import { PARAMETERS, SLIDER_RANGES, applicableParameters } from '../model/parameters'
+import {
+  UnitSettings,
+  formatMetric,
+  formatParameter,
+  localizeLabel,
+  metricFromDisplay,
+  metricToDisplay,
+  parameterLabel,
+  unitFormat,
+} from '../utils/units'
+
+interface GoalSeekPanelProps {
+  inputs: SimulationInputs
+  // Target in model units; typed and shown in `units`
+  goal: GoalSeekInputs
+  units: UnitSettings
+  onChange: (goal: GoalSeekInputs) => void
+  onApply: (field: NumericInput, value: number) => void
+}
+
+const formatGoalMetric = (metric: GoalSeekMetric, value: number, units: UnitSettings) =>
+  metric === 'totalCostPerMile' || metric === 'marginPerMile'
+    ? formatMetric(metric, value, units)
+    : unitFormat(units).compactMoney(metricToDisplay(metric, value, units))
+
+export const GoalSeekPanel: React.FC<GoalSeekPanelProps> = ({ inputs, goal, units, onChange, onApply }) => {
+  const result = useMemo(() => goalSeek(inputs, goal), [inputs, goal])
+  const range = SLIDER_RANGES[goal.field]
+  const formatInputValue = (value: number) => formatParameter(PARAMETERS[goal.field], value, units)
+  // Inputs the current modes ignore can't move the metric; a goal left on one after a mode change stays selected
+  const fields = applicableParameters(inputs)
+  const applies = fields.includes(goal.field)
+
+  return (
+    <div className="h-full flex flex-col gap-4">
+      {/* Goal */}
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>Set</span>
+        <select
+          value={goal.metric}
+          onChange={(e) => onChange({ ...goal, metric: e.target.value as GoalSeekMetric })}
+          className="px-2 py-1 border border-gray-300 rounded"
+        >
+          {(Object.keys(GOAL_SEEK_METRICS) as GoalSeekMetric[]).map(metric => (
+            <option key={metric} value={metric}>{localizeLabel(GOAL_SEEK_METRICS[metric], units)}</option>
+          ))}
+        </select>
+        <span>to</span>
+        <input
+          type="number"
+          step="any"
+          value={Number(metricToDisplay(goal.metric, goal.target, units).toPrecision(6))}
+          onChange={(e) => onChange({ ...goal, target: metricFromDisplay(goal.metric, Number(e.target.value), units) })}
+          className="w-28 px-2 py-1 border border-gray-300 rounded"
+        />
+        <span>by changing</span>
+        <select
+          value={goal.field}
+          onChange={(e) => onChange({ ...goal, field: e.target.value as NumericInput })}
+          className="px-2 py-1 border border-gray-300 rounded"
+        >
+          {(applies ? fields : [goal.field, ...fields]).map(field => (
+            <option key={field} value={field}>{parameterLabel(field, units)}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Result */}
+      {!applies ? (
+        <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-700">
+          {parameterLabel(goal.field, units)} doesn't affect the numbers under the current modes. Pick another input.
+        </div>
+      ) : result.solved ? (
+        <div className="flex flex-wrap items-center gap-4 p-3 bg-gray-50 rounded-md">
+          <div>
+            <div className="text-2xl font-bold text-gray-900">{formatInputValue(result.value)}</div>
+            <div className="text-xs text-gray-500 mt-1">
+              {parameterLabel(goal.field, units)} (now {formatInputValue(inputs[goal.field])}, solved {result.method === 'analytic' ? 'analytically' : 'numerically'})
+            </div>
+          </div>
+          <button
+            onClick={() => onApply(goal.field, result.value)}
+            className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+          >
+            Apply
+          </button>
+        </div>
+      ) : (
+        <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-700">
+          <div className="font-medium text-red-600">No solution within range</div>
+          <div className="text-xs text-gray-500 mt-1">
+            {parameterLabel(goal.field, units)} from {formatInputValue(range.min)} to {formatInputValue(range.max)}
+            {isFinite(result.reachable[0])
+              ? ` only reaches ${localizeLabel(GOAL_SEEK_METRICS[goal.metric], units)} of ${formatGoalMetric(goal.metric, result.reachable[0], units)} to ${formatGoalMetric(goal.metric, result.reachable[1], units)}.`
+              : ` never gives a finite ${localizeLabel(GOAL_SEEK_METRICS[goal.metric], units)}.`}
+          </div>
+        </div>
+      )}
+
+      <div className="text-xs text-gray-400">
+        Everything else is held at the current configuration. The search covers the input's slider range.
+      </div>
+    </div>
+  )
+}
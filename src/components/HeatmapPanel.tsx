@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react'
+import { SimulationInputs, NumericInput, NUMERIC_INPUTS } from '../model/economics'
+import { PARAMETERS, SLIDER_RANGES } from '../model/parameters'
+import { HeatmapCell, HeatmapInputs, HEATMAP_STEPS, marginGrid, zeroContour } from '../model/heatmap'
+import { UnitSettings, formatMetric, formatParameter, inputToDisplay, parameterLabel, toDisplay, unitFormat } from '../utils/units'
+
+interface HeatmapPanelProps {
+  inputs: SimulationInputs
+  heatmap: HeatmapInputs
+  units: UnitSettings
+  onChange: (heatmap: HeatmapInputs) => void
+}
+
+// SVG layout (viewBox units); the SVG scales to the panel width
+const WIDTH = 600
+const HEIGHT = 400
+const PLOT = { left: 60, right: 20, top: 10, bottom: 50 }
+const PLOT_WIDTH = WIDTH - PLOT.left - PLOT.right
+const PLOT_HEIGHT = HEIGHT - PLOT.top - PLOT.bottom
+const AXIS_TICKS = 5
+
+// Colour saturates at this margin per mile in either direction
+const MAX_COLOR_MARGIN = 3
+
+// Tick values in the user's units; the axis label carries the unit
+const formatAxisValue = (field: NumericInput, value: number, units: UnitSettings) => {
+  const display = inputToDisplay(field, value, units)
+  const f = unitFormat(units)
+  return Math.abs(display) >= 1000 ? f.compactNumber(display) : f.number(display, 2)
+}
+
+const formatPerMile = (metric: 'marginPerMile' | 'totalCostPerMile', value: number, units: UnitSettings) =>
+  isFinite(value) ? formatMetric(metric, value, units) : value > 0 ? '∞' : '-∞'
+
+// Red below zero, white at break-even, green above
+function marginColor(margin: number): string {
+  const t = isFinite(margin) ? Math.min(Math.abs(margin) / MAX_COLOR_MARGIN, 1) : 1
+  const [r, g, b] = margin < 0 ? [239, 68, 68] : [34, 197, 94]
+  const mix = (channel: number) => Math.round(255 + (channel - 255) * t)
+  return `rgb(${mix(r)}, ${mix(g)}, ${mix(b)})`
+}
+
+export const HeatmapPanel: React.FC<HeatmapPanelProps> = ({ inputs, heatmap, units, onChange }) => {
+  const { xField, yField } = heatmap
+  const f = unitFormat(units)
+  const [hovered, setHovered] = useState<HeatmapCell | null>(null)
+
+  const xAxis = useMemo(() => ({ field: xField, ...SLIDER_RANGES[xField] }), [xField])
+  const yAxis = useMemo(() => ({ field: yField, ...SLIDER_RANGES[yField] }), [yField])
+  const grid = useMemo(() => marginGrid(inputs, xAxis, yAxis), [inputs, xAxis, yAxis])
+  const contour = useMemo(() => zeroContour(grid), [grid])
+
+  const cellWidth = PLOT_WIDTH / HEATMAP_STEPS
+  const cellHeight = PLOT_HEIGHT / HEATMAP_STEPS
+  // Grid points sit at cell centres; row 0 is at the bottom
+  const toPixelX = (column: number) => PLOT.left + (column + 0.5) * cellWidth
+  const toPixelY = (row: number) => PLOT.top + PLOT_HEIGHT - (row + 0.5) * cellHeight
+  const valueToIndex = (value: number, axis: { min: number; max: number }) =>
+    (value - axis.min) / (axis.max - axis.min) * (HEATMAP_STEPS - 1)
+
+  const currentColumn = valueToIndex(inputs[xField], xAxis)
+  const currentRow = valueToIndex(inputs[yField], yAxis)
+  const currentInRange = currentColumn >= 0 && currentColumn <= HEATMAP_STEPS - 1 && currentRow >= 0 && currentRow <= HEATMAP_STEPS - 1
+
+  const ticks = Array.from({ length: AXIS_TICKS }, (_, i) => i / (AXIS_TICKS - 1))
+
+  const fieldSelect = (value: NumericInput, onChange: (field: NumericInput) => void, exclude: NumericInput) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as NumericInput)}
+      className="px-2 py-0.5 border border-gray-300 rounded"
+    >
+      {(Object.keys(NUMERIC_INPUTS) as NumericInput[]).filter(field => field !== exclude).map(field => (
+        <option key={field} value={field}>{parameterLabel(field, units)}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Axes */}
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-700">
+        <label className="flex items-center gap-1">X {fieldSelect(xField, (field) => onChange({ ...heatmap, xField: field }), yField)}</label>
+        <label className="flex items-center gap-1">Y {fieldSelect(yField, (field) => onChange({ ...heatmap, yField: field }), xField)}</label>
+        <span className="text-gray-500">
+          {hovered
+            ? `${parameterLabel(xField, units)} ${formatParameter(PARAMETERS[xField], hovered.x, units)}, ${parameterLabel(yField, units)} ${formatParameter(PARAMETERS[yField], hovered.y, units)} → margin ${formatPerMile('marginPerMile', hovered.marginPerMile, units)} / ${f.distance}, cost ${formatPerMile('totalCostPerMile', hovered.totalCostPerMile, units)} / ${f.distance}`
+            : 'Hover a cell for exact values'}
+        </span>
+      </div>
+
+      {/* Grid */}
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHovered(null)}>
+        {grid.cells.map((row, rowIndex) => row.map((cell, columnIndex) => (
+          <rect
+            key={`${rowIndex}-${columnIndex}`}
+            x={PLOT.left + columnIndex * cellWidth}
+            y={PLOT.top + PLOT_HEIGHT - (rowIndex + 1) * cellHeight}
+            width={cellWidth + 0.5}
+            height={cellHeight + 0.5}
+            fill={marginColor(cell.marginPerMile)}
+            onMouseEnter={() => setHovered(cell)}
+          />
+        )))}
+
+        {/* Break-even contour */}
+        {contour.map(([[x1, y1], [x2, y2]], i) => (
+          <line
+            key={i}
+            x1={toPixelX(x1)}
+            y1={toPixelY(y1)}
+            x2={toPixelX(x2)}
+            y2={toPixelY(y2)}
+            stroke="#111827"
+            strokeWidth={2}
+            pointerEvents="none"
+          />
+        ))}
+
+        {/* Current configuration */}
+        {currentInRange && (
+          <circle
+            cx={toPixelX(currentColumn)}
+            cy={toPixelY(currentRow)}
+            r={6}
+            fill="#3b82f6"
+            stroke="#ffffff"
+            strokeWidth={2}
+            pointerEvents="none"
+          />
+        )}
+
+        {/* Axis ticks and labels */}
+        {ticks.map(t => (
+          <React.Fragment key={t}>
+            <text x={toPixelX(t * (HEATMAP_STEPS - 1))} y={PLOT.top + PLOT_HEIGHT + 16} textAnchor="middle" fontSize={11} fill="#666">
+              {formatAxisValue(xField, xAxis.min + (xAxis.max - xAxis.min) * t, units)}
+            </text>
+            <text x={PLOT.left - 6} y={toPixelY(t * (HEATMAP_STEPS - 1)) + 4} textAnchor="end" fontSize={11} fill="#666">
+              {formatAxisValue(yField, yAxis.min + (yAxis.max - yAxis.min) * t, units)}
+            </text>
+          </React.Fragment>
+        ))}
+        <text x={PLOT.left + PLOT_WIDTH / 2} y={HEIGHT - 12} textAnchor="middle" fontSize={12} fill="#666">
+          {parameterLabel(xField, units)}
+        </text>
+        <text
+          x={14}
+          y={PLOT.top + PLOT_HEIGHT / 2}
+          textAnchor="middle"
+          fontSize={12}
+          fill="#666"
+          transform={`rotate(-90 14 ${PLOT.top + PLOT_HEIGHT / 2})`}
+        >
+          {parameterLabel(yField, units)}
+        </text>
+      </svg>
+
+      {/* Legend */}
+      <div className="flex items-center gap-2 text-[10px] text-gray-500">
+        <span>{f.money(-toDisplay(MAX_COLOR_MARGIN, 'money-per-distance', units), 2)}</span>
+        <div
+          className="h-2 w-40 rounded"
+          style={{ background: `linear-gradient(to right, ${marginColor(-MAX_COLOR_MARGIN)}, #ffffff, ${marginColor(MAX_COLOR_MARGIN)})` }}
+        />
+        <span>+{f.money(toDisplay(MAX_COLOR_MARGIN, 'money-per-distance', units), 2)} margin / {f.distance}</span>
+        <span className="ml-3 inline-block w-4 border-t-2 border-gray-900" />
+        <span>Break-even</span>
+        <span className="ml-3 inline-block w-2 h-2 rounded-full bg-blue-500" />
+        <span>Current</span>
+      </div>
+    </div>
+  )
+}
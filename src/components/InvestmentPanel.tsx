@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts'
+import { FinancingType, FINANCING_TYPES, INVESTMENT_RANGES, InvestmentInputs, InvestmentResult } from '../model/investment'
+import { formatIrr, formatPayback } from '../utils/format'
+import { UnitSettings, toDisplay, unitFormat } from '../utils/units'
+
+interface InvestmentPanelProps {
+  investment: InvestmentInputs
+  // Cash flows in dollars; shown in `units`
+  result: InvestmentResult
+  units: UnitSettings
+  onChange: (investment: InvestmentInputs) => void
+}
+
+export const InvestmentPanel: React.FC<InvestmentPanelProps> = ({ investment, result, units, onChange }) => {
+  const f = unitFormat(units)
+  const formatMoney = (value: number) => f.compactMoney(toDisplay(value, 'money', units))
+
+  const chartData = useMemo(() => result.cashFlows.map(point => ({
+    month: point.month,
+    net: toDisplay(point.net, 'money', units),
+    cumulative: toDisplay(point.cumulative, 'money', units),
+  })), [result, units])
+
+  const update = (patch: Partial<InvestmentInputs>) => onChange({ ...investment, ...patch })
+
+  // Empty or non-numeric entries keep the last value; the rest are clamped to the range
+  const updateNumber = (field: keyof typeof INVESTMENT_RANGES, raw: string) => {
+    const value = Number(raw)
+    if (raw.trim() === '' || !isFinite(value)) return
+    const { min, max } = INVESTMENT_RANGES[field]
+    update({ [field]: Math.min(Math.max(value, min), max) })
+  }
+
+  const numberField = (label: string, field: keyof typeof INVESTMENT_RANGES, suffix: string, disabled = false) => (
+    <label className={`flex items-center justify-between gap-2 ${disabled ? 'opacity-40' : ''}`}>
+      <span className="text-gray-700">{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          min={INVESTMENT_RANGES[field].min}
+          max={INVESTMENT_RANGES[field].max}
+          value={investment[field]}
+          disabled={disabled}
+          onChange={(e) => updateNumber(field, e.target.value)}
+          className="w-20 px-2 py-0.5 border border-gray-300 rounded"
+        />
+        <span className="text-gray-500 w-6">{suffix}</span>
+      </span>
+    </label>
+  )
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Returns */}
+      <div className="grid grid-cols-4 gap-3">
+        <div className="text-center">
+          <div className={`text-lg font-bold ${result.npvPerVehicle < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {formatMoney(result.npvPerVehicle)}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">NPV / vehicle</div>
+        </div>
+        <div className="text-center">
+          <div className={`text-lg font-bold ${result.fleetNpv < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {formatMoney(result.fleetNpv)}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">Fleet NPV</div>
+        </div>
+        <div className="text-center">
+          <div className="text-lg font-bold text-gray-900">{formatIrr(result.irrPercent)}</div>
+          <div className="text-xs text-gray-500 mt-1">IRR</div>
+        </div>
+        <div className="text-center">
+          <div className="text-lg font-bold text-gray-900">{formatPayback(result.paybackMonths)}</div>
+          <div className="text-xs text-gray-500 mt-1">Payback</div>
+        </div>
+      </div>
+
+      {/* Assumptions */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-xs">
+        {numberField('Discount rate', 'discountRatePercent', '%')}
+        {numberField('Residual value', 'residualValuePercent', '%')}
+        {numberField('Capex lead time', 'capexLeadMonths', 'mo')}
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-gray-700">Financing</span>
+          <select
+            value={investment.financing}
+            onChange={(e) => update({ financing: e.target.value as FinancingType })}
+            className="w-[6.5rem] mr-7 px-2 py-0.5 border border-gray-300 rounded"
+          >
+            {(Object.keys(FINANCING_TYPES) as FinancingType[]).map(type => (
+              <option key={type} value={type}>{FINANCING_TYPES[type]}</option>
+            ))}
+          </select>
+        </label>
+        {numberField('Interest rate', 'financingRatePercent', '%', investment.financing === 'cash')}
+        {numberField('Term', 'financingTermMonths', 'mo', investment.financing === 'cash')}
+      </div>
+
+      {/* Per-vehicle cash flows */}
+      <div className="flex-1 min-h-[220px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="2 2" stroke="#f0f0f0" />
+            <XAxis
+              dataKey="month"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              label={{ value: 'Month', position: 'insideBottom', offset: -5, style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              tickFormatter={f.compactMoney}
+            />
+            <Tooltip
+              formatter={(value: number, name: string) => [f.compactMoney(value), name]}
+              labelFormatter={(label) => `Month ${label}`}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                fontSize: '12px'
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            {result.paybackMonths !== null && (
+              <ReferenceLine
+                x={result.paybackMonths}
+                stroke="#9333ea"
+                strokeDasharray="3 3"
+                label={{ value: 'Payback', position: 'top', style: { fontSize: '10px', fill: '#9333ea' } }}
+              />
+            )}
+            <Bar dataKey="net" name="Net cash flow / vehicle" fill="#93c5fd" />
+            <Line type="monotone" dataKey="cumulative" name="Cumulative / vehicle" stroke="#3b82f6" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
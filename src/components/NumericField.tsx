@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react'
+import { ParameterSpec } from '../model/parameters'
+import { formatParameterInput, nudgeParameter, parseParameterInput } from '../utils/parameterInput'
+import { UnitSettings } from '../utils/units'
+
+interface NumericFieldProps {
+  spec: ParameterSpec
+  // In model units (dollars, miles); shown and typed in `units`
+  value: number
+  units: UnitSettings
+  onChange: (value: number) => void
+}
+
+// Typed value for a slider. Valid entries apply as you type; invalid ones show
+// an inline error and are dropped on blur or Escape.
+export const NumericField: React.FC<NumericFieldProps> = ({ spec, value, units, onChange }) => {
+  const [draft, setDraft] = useState(() => formatParameterInput(spec, value, units))
+  const [editing, setEditing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Follow the slider (and presets, imports) while the field isn't being edited
+  useEffect(() => {
+    if (!editing) setDraft(formatParameterInput(spec, value, units))
+  }, [spec, value, units, editing])
+
+  const reset = () => {
+    setDraft(formatParameterInput(spec, value, units))
+    setError(null)
+  }
+
+  const edit = (text: string) => {
+    setDraft(text)
+    const parsed = parseParameterInput(spec, text, units)
+    if (parsed.ok) {
+      setError(null)
+      if (parsed.value !== value) onChange(parsed.value)
+    } else {
+      setError(parsed.error)
+    }
+  }
+
+  const nudge = (steps: number) => {
+    const next = nudgeParameter(spec, value, steps)
+    onChange(next)
+    setDraft(formatParameterInput(spec, next, units))
+    setError(null)
+  }
+
+  return (
+    <div className="text-right">
+      <input
+        type="text"
+        inputMode="decimal"
+        value={draft}
+        aria-label={spec.label}
+        aria-invalid={error !== null}
+        onFocus={() => setEditing(true)}
+        onBlur={() => {
+          setEditing(false)
+          reset()
+        }}
+        onChange={(e) => edit(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            e.preventDefault()
+            nudge((e.key === 'ArrowUp' ? 1 : -1) * (e.shiftKey ? 10 : 1))
+          } else if (e.key === 'Enter') {
+            reset()
+          } else if (e.key === 'Escape') {
+            reset()
+            e.currentTarget.blur()
+          }
+        }}
+        className={`w-28 px-2 py-0.5 border rounded text-sm text-right focus:outline-none focus:ring-2 ${
+          error ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-blue-500'
+        }`}
+      />
+      {error && <div className="text-xs text-red-600 mt-0.5">{error}</div>}
+    </div>
+  )
+}
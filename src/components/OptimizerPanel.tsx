@@ -0,0 +1,197 @@
+import React, { useMemo } from 'react'
+import { SimulationInputs, SimulationMetrics, NumericInput } from '../model/economics'
+import { LeverSetting, OptimizerInputs, OptimizerTarget, OPTIMIZER_TARGETS, defaultLever, meetsTarget, optimize } from '../model/optimizer'
+import { PARAMETERS, applicableParameters } from '../model/parameters'
+import {
+  UnitSettings,
+  currencySymbol,
+  formatMetric,
+  formatParameter,
+  inputFromDisplay,
+  inputToDisplay,
+  localizeLabel,
+  metricFromDisplay,
+  metricToDisplay,
+  parameterLabel,
+  unitFormat,
+} from '../utils/units'
+
+interface OptimizerPanelProps {
+  inputs: SimulationInputs
+  // Target and lever bounds in model units; typed and shown in `units`
+  optimizer: OptimizerInputs
+  units: UnitSettings
+  onChange: (optimizer: OptimizerInputs) => void
+  onApply: (patch: Partial<SimulationInputs>) => void
+}
+
+const formatPerMile = (metric: 'totalCostPerMile' | 'marginPerMile', value: number, units: UnitSettings) =>
+  isFinite(value) ? formatMetric(metric, value, units) : value > 0 ? '∞' : '-∞'
+
+const PLAN_KPIS: { label: string; format: (metrics: SimulationMetrics, units: UnitSettings) => string }[] = [
+  { label: 'Cost / mile', format: (m, units) => formatPerMile('totalCostPerMile', m.totalCostPerMile, units) },
+  { label: 'Margin / mile', format: (m, units) => formatPerMile('marginPerMile', m.marginPerMile, units) },
+  { label: 'Break-even util.', format: (m) => m.breakEvenUtilizationPercent !== null ? `${m.breakEvenUtilizationPercent.toFixed(1)}%` : 'n/a' },
+  { label: 'Fleet profit / yr', format: (m, units) => unitFormat(units).compactMoney(metricToDisplay('fleetProfitPerYear', m.fleetProfitPerYear, units)) },
+]
+
+export const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ inputs, optimizer, units, onChange, onApply }) => {
+  const plans = useMemo(() => optimize(inputs, optimizer), [inputs, optimizer])
+  const fields = Object.keys(optimizer.levers) as NumericInput[]
+  const formatInputValue = (field: NumericInput, value: number) => formatParameter(PARAMETERS[field], value, units)
+  // Levers the current modes ignore stay listed but are left out of the search
+  const applicable = applicableParameters(inputs)
+  const available = applicable.filter(field => !fields.includes(field))
+
+  const setLevers = (levers: OptimizerInputs['levers']) => onChange({ ...optimizer, levers })
+
+  const updateLever = (field: NumericInput, patch: Partial<LeverSetting>) => {
+    const current = optimizer.levers[field]
+    if (!current) return
+    setLevers({ ...optimizer.levers, [field]: { ...current, ...patch } })
+  }
+
+  const removeLever = (field: NumericInput) => {
+    const levers = { ...optimizer.levers }
+    delete levers[field]
+    setLevers(levers)
+  }
+
+  // Bounds are in the input's units, the weight is a plain number
+  const numberCell = (field: NumericInput, key: keyof LeverSetting, step: string) => (
+    <td className="py-1 pr-2">
+      <input
+        type="number"
+        step={step}
+        value={key === 'weight'
+          ? optimizer.levers[field]?.weight ?? 0
+          : Number(inputToDisplay(field, optimizer.levers[field]?.[key] ?? 0, units).toPrecision(6))}
+        onChange={(e) => updateLever(field, {
+          [key]: key === 'weight' ? Number(e.target.value) : inputFromDisplay(field, Number(e.target.value), units),
+        })}
+        className="w-24 px-2 py-0.5 border border-gray-300 rounded"
+      />
+    </td>
+  )
+
+  const alreadyMet = meetsTarget(inputs, optimizer)
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Target */}
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>Target</span>
+        <select
+          value={optimizer.target}
+          onChange={(e) => onChange({ ...optimizer, target: e.target.value as OptimizerTarget })}
+          className="px-2 py-1 border border-gray-300 rounded"
+        >
+          {(Object.keys(OPTIMIZER_TARGETS) as OptimizerTarget[]).map(target => (
+            <option key={target} value={target}>{localizeLabel(OPTIMIZER_TARGETS[target], units)}</option>
+          ))}
+        </select>
+        <span>{currencySymbol(units)}</span>
+        <input
+          type="number"
+          step="0.05"
+          value={Number(metricToDisplay(optimizer.target, optimizer.targetValue, units).toPrecision(6))}
+          onChange={(e) => onChange({ ...optimizer, targetValue: metricFromDisplay(optimizer.target, Number(e.target.value), units) })}
+          className="w-24 px-2 py-1 border border-gray-300 rounded"
+        />
+        <span>/ {unitFormat(units).distance}</span>
+      </div>
+
+      {/* Levers */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium py-1">Lever</th>
+              <th className="text-left font-medium py-1">Current</th>
+              <th className="text-left font-medium py-1">Min</th>
+              <th className="text-left font-medium py-1">Max</th>
+              <th className="text-left font-medium py-1">Effort weight</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map(field => (
+              <tr key={field}>
+                <td className="py-1 pr-2 text-gray-700">
+                  {parameterLabel(field, units)}
+                  {!applicable.includes(field) && <span className="ml-1 text-gray-400">(unused in these modes)</span>}
+                </td>
+                <td className="py-1 pr-2 text-gray-500">{formatInputValue(field, inputs[field])}</td>
+                {numberCell(field, 'min', 'any')}
+                {numberCell(field, 'max', 'any')}
+                {numberCell(field, 'weight', '0.5')}
+                <td className="py-1">
+                  <button onClick={() => removeLever(field)} className="text-gray-400 hover:text-red-600">✕</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex items-center gap-3 mt-2 text-xs">
+          <select
+            value=""
+            onChange={(e) => {
+              const field = e.target.value as NumericInput
+              if (field) setLevers({ ...optimizer.levers, [field]: defaultLever(field, inputs[field]) })
+            }}
+            className="px-2 py-0.5 border border-gray-300 rounded"
+          >
+            <option value="">+ Add lever</option>
+            {available.map(field => (
+              <option key={field} value={field}>{parameterLabel(field, units)}</option>
+            ))}
+          </select>
+          <span className="text-gray-400">Inputs not listed are held fixed. Effort = weight × % of slider range moved.</span>
+        </div>
+      </div>
+
+      {/* Plans */}
+      {plans.length === 0 ? (
+        <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-700">
+          {alreadyMet ? 'The current configuration already meets the target.' : 'No feasible plan within these bounds. Widen the bounds or add levers.'}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {plans.map((plan, i) => (
+            <div key={i} className="p-3 border border-gray-200 rounded-md">
+              <div className="flex items-start justify-between gap-3">
+                <div className="text-sm text-gray-800">
+                  <span className="font-semibold mr-2">#{i + 1}</span>
+                  {plan.changes.map(change => (
+                    <span key={change.field} className="mr-3 whitespace-nowrap">
+                      {parameterLabel(change.field, units)} {formatInputValue(change.field, change.from)} → <span className="font-medium">{formatInputValue(change.field, change.to)}</span>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-xs text-gray-500">effort {plan.effort.toFixed(1)}</span>
+                  <button
+                    onClick={() => onApply(Object.fromEntries(plan.changes.map(change => [change.field, change.to])))}
+                    className="px-3 py-1 bg-blue-600 text-white text-xs rounded-md hover:bg-blue-700"
+                  >
+                    Apply
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2 text-xs">
+                {PLAN_KPIS.map(kpi => (
+                  <div key={kpi.label}>
+                    <span className="text-gray-500">{localizeLabel(kpi.label, units)}: </span>
+                    <span className="text-gray-500">{kpi.format(plan.before, units)}</span>
+                    <span className="text-gray-400"> → </span>
+                    <span className="font-medium text-gray-900">{kpi.format(plan.after, units)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import React from 'react'
+import { ParameterSpec } from '../model/parameters'
+import { UnitSettings, formatParameter, localizeLabel } from '../utils/units'
+import { NumericField } from './NumericField'
+
+interface ParameterSliderProps {
+  spec: ParameterSpec
+  // In model units; the track stays in them, the label and field use `units`
+  value: number
+  units: UnitSettings
+  onChange: (value: number) => void
+  // Overrides the registry label, e.g. when a mode renames the input
+  label?: string
+  // Extra context under the label
+  note?: string
+}
+
+// Log-scale tracks move in fine positions and snap to two significant figures
+// (then the input's step), so 2,500 and 170,000 are both reachable by drag
+const LOG_POSITIONS = 1000
+
+const toPosition = (spec: ParameterSpec, value: number) =>
+  spec.scale === 'log'
+    ? Math.log(value / spec.min) / Math.log(spec.max / spec.min) * LOG_POSITIONS
+    : value
+
+const fromPosition = (spec: ParameterSpec, position: number) => {
+  if (spec.scale !== 'log') return position
+  const raw = spec.min * Math.pow(spec.max / spec.min, position / LOG_POSITIONS)
+  const snapped = Math.round(Number(raw.toPrecision(2)) / spec.step) * spec.step
+  return Math.min(spec.max, Math.max(spec.min, snapped))
+}
+
+export const ParameterSlider: React.FC<ParameterSliderProps> = ({ spec, value, units, onChange, label, note }) => {
+  const log = spec.scale === 'log'
+  const fill = log
+    ? (toPosition(spec, value) / LOG_POSITIONS) * 100
+    : ((value - spec.min) / (spec.max - spec.min)) * 100
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div>
+          <label className="text-sm font-medium text-gray-700 block" title={localizeLabel(spec.help, units)}>{label ?? localizeLabel(spec.label, units)}</label>
+          <div className="text-xs text-gray-500">
+            {formatParameter(spec, value, units)}
+            {log && ' · log scale'}
+            {note && ` · ${note}`}
+          </div>
+        </div>
+        <NumericField spec={spec} value={value} units={units} onChange={onChange} />
+      </div>
+      <input
+        type="range"
+        min={log ? 0 : spec.min}
+        max={log ? LOG_POSITIONS : spec.max}
+        step={log ? 1 : spec.step}
+        value={toPosition(spec, value)}
+        onChange={(e) => onChange(fromPosition(spec, Number(e.target.value)))}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        style={{
+          background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${fill}%, #e5e7eb ${fill}%, #e5e7eb 100%)`
+        }}
+      />
+    </div>
+  )
+}
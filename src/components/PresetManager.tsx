@@ -0,0 +1,222 @@
+import React, { useState } from 'react'
+import { PresetEntry, TeamPresetDraft } from '../utils/presetLibrary'
+
+interface PresetManagerProps {
+  userPresets: PresetEntry[]
+  teamPresets: PresetEntry[]
+  teamError: string | null
+  onSelect: (id: string) => void
+  onCreate: (name: string, description: string) => void
+  onEdit: (id: string, patch: { name: string; description: string }) => void
+  onOverwrite: (id: string) => void
+  onDelete: (id: string) => void
+  onPublish: (draft: TeamPresetDraft) => Promise<void>
+}
+
+const EMPTY_DRAFT: TeamPresetDraft = { name: '', description: '', author: '', sourceNotes: '' }
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export const PresetManager: React.FC<PresetManagerProps> = ({
+  userPresets,
+  teamPresets,
+  teamError,
+  onSelect,
+  onCreate,
+  onEdit,
+  onOverwrite,
+  onDelete,
+  onPublish,
+}) => {
+  const [newName, setNewName] = useState('')
+  const [newDescription, setNewDescription] = useState('')
+  const [editing, setEditing] = useState<{ id: string; name: string; description: string } | null>(null)
+  const [draft, setDraft] = useState<TeamPresetDraft | null>(null)
+  const [publishing, setPublishing] = useState(false)
+  const [publishError, setPublishError] = useState<string | null>(null)
+
+  const create = () => {
+    if (!newName.trim()) return
+    onCreate(newName.trim(), newDescription.trim())
+    setNewName('')
+    setNewDescription('')
+  }
+
+  const commitEdit = () => {
+    if (editing && editing.name.trim()) {
+      onEdit(editing.id, { name: editing.name.trim(), description: editing.description.trim() })
+    }
+    setEditing(null)
+  }
+
+  const publish = async () => {
+    if (!draft || !draft.name.trim() || !draft.author.trim()) {
+      setPublishError('Name and author are required.')
+      return
+    }
+    setPublishing(true)
+    setPublishError(null)
+    try {
+      await onPublish(draft)
+      setDraft(null)
+    } catch (error) {
+      setPublishError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* My presets */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && create()}
+            placeholder="New preset name"
+            className={`flex-1 min-w-0 ${inputClass}`}
+          />
+          <button
+            onClick={create}
+            disabled={!newName.trim()}
+            className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+        <input
+          type="text"
+          value={newDescription}
+          onChange={(e) => setNewDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className={inputClass}
+        />
+
+        {userPresets.length === 0 ? (
+          <div className="text-xs text-gray-400">No presets of your own yet. Save the current sliders to create one.</div>
+        ) : (
+          <ul className="space-y-1">
+            {userPresets.map(preset => editing?.id === preset.id ? (
+              <li key={preset.id} className="space-y-1">
+                <input
+                  type="text"
+                  value={editing.name}
+                  autoFocus
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEdit()
+                    if (e.key === 'Escape') setEditing(null)
+                  }}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={editing.description}
+                  onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && commitEdit()}
+                  placeholder="Description"
+                  className={inputClass}
+                />
+                <div className="flex gap-2 text-xs">
+                  <button onClick={commitEdit} className="text-blue-600 hover:underline">Done</button>
+                  <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-700">Cancel</button>
+                </div>
+              </li>
+            ) : (
+              <li key={preset.id} className="flex items-center gap-2 text-sm">
+                <button
+                  onClick={() => onSelect(preset.id)}
+                  className="flex-1 min-w-0 truncate text-left text-gray-700 hover:underline"
+                  title={preset.description || 'Load into sliders'}
+                >
+                  {preset.name}
+                </button>
+                <div className="flex gap-2 text-xs text-gray-400 shrink-0">
+                  <button
+                    onClick={() => setEditing({ id: preset.id, name: preset.name, description: preset.description })}
+                    className="hover:text-gray-700"
+                  >
+                    Edit
+                  </button>
+                  <button onClick={() => onOverwrite(preset.id)} className="hover:text-gray-700" title="Replace with the current sliders">
+                    Update
+                  </button>
+                  <button onClick={() => onDelete(preset.id)} className="hover:text-red-600">Delete</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Team library */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-medium text-gray-700">Team library</h4>
+          {!draft && (
+            <button
+              onClick={() => {
+                setDraft(EMPTY_DRAFT)
+                setPublishError(null)
+              }}
+              className="text-xs text-blue-600 hover:text-blue-700 hover:underline"
+            >
+              Share current…
+            </button>
+          )}
+        </div>
+
+        {draft && (
+          <div className="p-2 bg-gray-50 rounded-md space-y-1">
+            <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Name" className={inputClass} />
+            <input type="text" value={draft.author} onChange={(e) => setDraft({ ...draft, author: e.target.value })} placeholder="Author" className={inputClass} />
+            <input type="text" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Description" className={inputClass} />
+            <textarea
+              value={draft.sourceNotes}
+              onChange={(e) => setDraft({ ...draft, sourceNotes: e.target.value })}
+              placeholder="Source notes (where the numbers come from)"
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+            {publishError && <div className="text-xs text-red-600">{publishError}</div>}
+            <div className="flex gap-2 text-xs">
+              <button
+                onClick={publish}
+                disabled={publishing}
+                className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {publishing ? 'Publishing…' : 'Publish'}
+              </button>
+              <button onClick={() => setDraft(null)} className="text-gray-400 hover:text-gray-700">Cancel</button>
+            </div>
+          </div>
+        )}
+
+        {teamError ? (
+          <div className="text-xs text-gray-400">{teamError}</div>
+        ) : teamPresets.length === 0 ? (
+          <div className="text-xs text-gray-400">No team presets yet.</div>
+        ) : (
+          <ul className="space-y-2">
+            {teamPresets.map(preset => (
+              <li key={preset.id} className="text-sm">
+                <button onClick={() => onSelect(preset.id)} className="text-left text-gray-700 hover:underline">
+                  {preset.name}
+                </button>
+                <div className="text-xs text-gray-500">
+                  {preset.author}
+                  {preset.createdAt && ` · ${new Date(preset.createdAt).toLocaleDateString()}`}
+                </div>
+                {preset.description && <div className="text-xs text-gray-600">{preset.description}</div>}
+                {preset.sourceNotes && <div className="text-xs text-gray-400 italic">Source: {preset.sourceNotes}</div>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+import React, { useMemo } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts'
+import { SimulationInputs } from '../model/economics'
+import { ProjectionInputs, RampCurve, RampedField, RAMP_CURVES, runProjection } from '../model/projection'
+import { UnitSettings, inputFromDisplay, inputToDisplay, localizeLabel, parameterLabel, toDisplay, unitFormat } from '../utils/units'
+
+interface ProjectionPanelProps {
+  inputs: SimulationInputs
+  // Ramps in model units; typed and shown in `units`
+  projection: ProjectionInputs
+  units: UnitSettings
+  onChange: (projection: ProjectionInputs) => void
+}
+
+const RAMPED_FIELDS: RampedField[] = ['fleetSize', 'utilizationPercent', 'deadheadPercent', 'vehicleCost', 'vehiclesPerOperator']
+
+// Per-mile lines are capped like the cost curve
+const MAX_DISPLAY_COST_PER_MILE = 10
+
+const formatMonth = (month: number | null) => month === null ? 'not in horizon' : `Month ${month}`
+
+export const ProjectionPanel: React.FC<ProjectionPanelProps> = ({ inputs, projection, units, onChange }) => {
+  const result = useMemo(() => runProjection(inputs, projection), [inputs, projection])
+  const f = unitFormat(units)
+
+  const chartData = useMemo(() => {
+    const perMile = (value: number) => toDisplay(value, 'money-per-distance', units)
+    const cap = perMile(MAX_DISPLAY_COST_PER_MILE)
+    return result.points.map(point => ({
+      month: point.month,
+      totalCostPerMile: isFinite(point.totalCostPerMile) ? Math.min(perMile(point.totalCostPerMile), cap) : cap,
+      marginPerMile: isFinite(point.marginPerMile) ? Math.max(perMile(point.marginPerMile), -cap) : -cap,
+      cumulativeCash: toDisplay(point.cumulativeCash, 'money', units),
+    }))
+  }, [result, units])
+
+  const updateRamp = (field: RampedField, patch: Partial<ProjectionInputs['ramps'][RampedField]>) => {
+    onChange({
+      ...projection,
+      ramps: { ...projection.ramps, [field]: { ...projection.ramps[field], ...patch } },
+    })
+  }
+
+  const resetStartToCurrent = () => {
+    const ramps = { ...projection.ramps }
+    for (const key of RAMPED_FIELDS) {
+      ramps[key] = { ...ramps[key], start: inputs[key] }
+    }
+    onChange({ ...projection, ramps })
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Milestones */}
+      <div className="grid grid-cols-3 gap-3">
+        <div className="text-center">
+          <div className="text-lg font-bold text-gray-900">{formatMonth(result.firstPositiveMarginMonth)}</div>
+          <div className="text-xs text-gray-500 mt-1">Margin turns positive</div>
+        </div>
+        <div className="text-center">
+          <div className="text-lg font-bold text-gray-900">{formatMonth(result.cashBreakevenMonth)}</div>
+          <div className="text-xs text-gray-500 mt-1">Cash breakeven</div>
+        </div>
+        <div className="text-center">
+          <div className="text-lg font-bold text-red-600">{f.compactMoney(toDisplay(result.troughCash, 'money', units))}</div>
+          <div className="text-xs text-gray-500 mt-1">Peak funding need</div>
+        </div>
+      </div>
+
+      {/* Ramp controls */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium py-1">Ramp</th>
+              <th className="text-left font-medium py-1">Start</th>
+              <th className="text-left font-medium py-1">End</th>
+              <th className="text-left font-medium py-1">Curve</th>
+            </tr>
+          </thead>
+          <tbody>
+            {RAMPED_FIELDS.map(key => (
+              <tr key={key}>
+                <td className="py-1 pr-2 text-gray-700">{parameterLabel(key, units)}</td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    value={Number(inputToDisplay(key, projection.ramps[key].start, units).toPrecision(6))}
+                    onChange={(e) => updateRamp(key, { start: inputFromDisplay(key, Number(e.target.value), units) })}
+                    className="w-24 px-2 py-0.5 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    value={Number(inputToDisplay(key, projection.ramps[key].end, units).toPrecision(6))}
+                    onChange={(e) => updateRamp(key, { end: inputFromDisplay(key, Number(e.target.value), units) })}
+                    className="w-24 px-2 py-0.5 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="py-1">
+                  <select
+                    value={projection.ramps[key].curve}
+                    onChange={(e) => updateRamp(key, { curve: e.target.value as RampCurve })}
+                    className="px-2 py-0.5 border border-gray-300 rounded"
+                  >
+                    {(Object.keys(RAMP_CURVES) as RampCurve[]).map(curve => (
+                      <option key={curve} value={curve}>{RAMP_CURVES[curve]}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex items-center gap-3 mt-2 text-xs">
+          <label className="text-gray-700">Horizon</label>
+          <select
+            value={projection.months}
+            onChange={(e) => onChange({ ...projection, months: Number(e.target.value) })}
+            className="px-2 py-0.5 border border-gray-300 rounded"
+          >
+            {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(years => (
+              <option key={years} value={years * 12}>{years} {years === 1 ? 'year' : 'years'}</option>
+            ))}
+          </select>
+          <button
+            onClick={resetStartToCurrent}
+            className="text-blue-600 hover:underline"
+          >
+            Start from current sliders
+          </button>
+        </div>
+      </div>
+
+      {/* Monthly series */}
+      <div className="flex-1 min-h-[220px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="2 2" stroke="#f0f0f0" />
+            <XAxis
+              dataKey="month"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              label={{ value: 'Month', position: 'insideBottom', offset: -5, style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
+            />
+            <YAxis
+              yAxisId="perMile"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              label={{ value: localizeLabel('($) / mile', units), angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fontSize: '12px', fill: '#666' } }}
+            />
+            <YAxis
+              yAxisId="cash"
+              orientation="right"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              tickFormatter={f.compactMoney}
+            />
+            <Tooltip
+              formatter={(value: number, name: string) => [
+                name === 'Cumulative cash' ? f.compactMoney(value) : f.money(value, 2),
+                name,
+              ]}
+              labelFormatter={(label) => `Month ${label}`}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                fontSize: '12px'
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+
+            <ReferenceLine yAxisId="perMile" y={0} stroke="#e5e7eb" />
+            {result.firstPositiveMarginMonth !== null && (
+              <ReferenceLine
+                yAxisId="perMile"
+                x={result.firstPositiveMarginMonth}
+                stroke="#51cf66"
+                strokeDasharray="3 3"
+                label={{ value: 'Margin > 0', position: 'top', style: { fontSize: '10px', fill: '#51cf66' } }}
+              />
+            )}
+            {result.cashBreakevenMonth !== null && (
+              <ReferenceLine
+                yAxisId="perMile"
+                x={result.cashBreakevenMonth}
+                stroke="#9333ea"
+                strokeDasharray="3 3"
+                label={{ value: 'Cash breakeven', position: 'top', style: { fontSize: '10px', fill: '#9333ea' } }}
+              />
+            )}
+
+            <Line yAxisId="perMile" type="monotone" dataKey="totalCostPerMile" name={localizeLabel('Cost / mile', units)} stroke="#3b82f6" strokeWidth={2} dot={false} />
+            <Line yAxisId="perMile" type="monotone" dataKey="marginPerMile" name={localizeLabel('Margin / mile', units)} stroke="#f59e0b" strokeWidth={2} dot={false} />
+            <Line yAxisId="cash" type="monotone" dataKey="cumulativeCash" name="Cumulative cash" stroke="#9333ea" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import React from 'react'
+import { SimulationMetrics } from '../model/economics'
+import { ReferenceLineSpec } from '../utils/referenceLines'
+import { UnitSettings, metricFromDisplay, metricToDisplay } from '../utils/units'
+
+interface ReferenceLineEditorProps {
+  // Values in model units; edited in `units`
+  lines: ReferenceLineSpec[]
+  // Metrics a line can be attached to, with their labels
+  metrics: Partial<Record<keyof SimulationMetrics, string>>
+  onAdd: () => void
+  units: UnitSettings
+  onChange: (lines: ReferenceLineSpec[]) => void
+}
+
+const inputClass = 'px-1 py-0.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export const ReferenceLineEditor: React.FC<ReferenceLineEditorProps> = ({ lines, metrics, units, onAdd, onChange }) => {
+  const update = (id: string, patch: Partial<ReferenceLineSpec>) =>
+    onChange(lines.map(line => line.id === id ? { ...line, ...patch } : line))
+
+  return (
+    <div className="space-y-2">
+      {lines.length === 0 ? (
+        <div className="text-xs text-gray-400">No reference lines. Add one for a benchmark or target.</div>
+      ) : (
+        <ul className="space-y-2">
+          {lines.map(line => (
+            <li key={line.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={line.color}
+                  onChange={(e) => update(line.id, { color: e.target.value })}
+                  className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer shrink-0"
+                  title="Line colour"
+                />
+                <input
+                  type="text"
+                  value={line.label}
+                  onChange={(e) => update(line.id, { label: e.target.value })}
+                  placeholder="Label"
+                  className={`flex-1 min-w-0 ${inputClass}`}
+                />
+                <input
+                  type="number"
+                  value={Number(metricToDisplay(line.metric, line.value, units).toPrecision(6))}
+                  step="any"
+                  onChange={(e) => {
+                    const value = e.target.valueAsNumber
+                    if (isFinite(value)) update(line.id, { value: metricFromDisplay(line.metric, value, units) })
+                  }}
+                  className={`w-20 ${inputClass}`}
+                />
+                <button
+                  onClick={() => onChange(lines.filter(l => l.id !== line.id))}
+                  className="text-xs text-gray-400 hover:text-red-600 shrink-0"
+                  title="Remove line"
+                >
+                  ✕
+                </button>
+              </div>
+              <select
+                value={line.metric}
+                onChange={(e) => update(line.id, { metric: e.target.value as keyof SimulationMetrics })}
+                className={`w-full ${inputClass} text-xs text-gray-600`}
+              >
+                {(Object.keys(metrics) as (keyof SimulationMetrics)[]).map(metric => (
+                  <option key={metric} value={metric}>On {metrics[metric]}</option>
+                ))}
+              </select>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button onClick={onAdd} className="text-xs text-blue-600 hover:text-blue-700 hover:underline">
+        + Add line
+      </button>
+    </div>
+  )
+}
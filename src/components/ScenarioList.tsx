@@ -0,0 +1,118 @@
+import React, { useState } from 'react'
+import { Scenario, MAX_PINNED, SCENARIO_COLORS } from '../utils/scenarios'
+
+interface ScenarioListProps {
+  scenarios: Scenario[]
+  pinnedIds: string[]
+  onSave: (name: string) => void
+  onLoad: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+  onTogglePin: (id: string) => void
+}
+
+export const ScenarioList: React.FC<ScenarioListProps> = ({
+  scenarios,
+  pinnedIds,
+  onSave,
+  onLoad,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onTogglePin,
+}) => {
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  const save = () => {
+    onSave(newName.trim() || `Scenario ${scenarios.length + 1}`)
+    setNewName('')
+  }
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) onRename(editingId, editingName.trim())
+    setEditingId(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder="Scenario name"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={save}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+        >
+          Save
+        </button>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <div className="text-xs text-gray-400">No saved scenarios yet.</div>
+      ) : (
+        <ul className="space-y-1">
+          {scenarios.map(scenario => {
+            const pinIndex = pinnedIds.indexOf(scenario.id)
+            const pinned = pinIndex >= 0
+            const canPin = pinned || pinnedIds.length < MAX_PINNED
+            return (
+              <li key={scenario.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={pinned}
+                  disabled={!canPin}
+                  onChange={() => onTogglePin(scenario.id)}
+                  title={canPin ? 'Pin for comparison' : `At most ${MAX_PINNED} pinned`}
+                  style={pinned ? { accentColor: SCENARIO_COLORS[pinIndex] } : undefined}
+                />
+                {editingId === scenario.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    autoFocus
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename()
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    className="flex-1 min-w-0 px-1 border border-gray-300 rounded text-sm"
+                  />
+                ) : (
+                  <button
+                    onClick={() => onLoad(scenario.id)}
+                    className="flex-1 min-w-0 truncate text-left text-gray-700 hover:underline"
+                    title="Load into sliders"
+                  >
+                    {scenario.name}
+                  </button>
+                )}
+                <div className="flex gap-2 text-xs text-gray-400 shrink-0">
+                  <button
+                    onClick={() => {
+                      setEditingId(scenario.id)
+                      setEditingName(scenario.name)
+                    }}
+                    className="hover:text-gray-700"
+                  >
+                    Rename
+                  </button>
+                  <button onClick={() => onDuplicate(scenario.id)} className="hover:text-gray-700">Copy</button>
+                  <button onClick={() => onDelete(scenario.id)} className="hover:text-red-600">Delete</button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
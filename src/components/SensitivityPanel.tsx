@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts'
+import { SimulationInputs, SimulationMetrics } from '../model/economics'
+import {
+  SensitivityInputs,
+  SensitivityMetric,
+  SensitivityMode,
+  SENSITIVITY_METRICS,
+  SENSITIVITY_MODES,
+  rankBy,
+  runSensitivity,
+} from '../model/sensitivity'
+import { PARAMETERS } from '../model/parameters'
+import { UnitSettings, formatParameter, localizeLabel, metricToDisplay, parameterLabel, unitFormat } from '../utils/units'
+
+interface SensitivityPanelProps {
+  inputs: SimulationInputs
+  // Model units (dollars, miles); shown in `units`
+  metrics: SimulationMetrics
+  sensitivity: SensitivityInputs
+  units: UnitSettings
+  onChange: (sensitivity: SensitivityInputs) => void
+}
+
+const formatElasticity = (value: number | null) => value === null ? 'n/a' : value.toFixed(2)
+
+export const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ inputs, metrics, sensitivity, units, onChange }) => {
+  const [metric, setMetric] = useState<SensitivityMetric>('marginPerMile')
+  const rows = useMemo(() => runSensitivity(inputs, sensitivity), [inputs, sensitivity])
+  const ranked = useMemo(() => rankBy(rows, metric), [rows, metric])
+
+  const f = unitFormat(units)
+  const toUnits = (value: number) => metricToDisplay(metric, value, units)
+  const base = metrics[metric]
+  // Formats a value already in the user's units
+  const format = metric === 'marginPerMile' ? (value: number) => f.money(value, 2) : f.compactMoney
+
+  // Bars are deltas from the current value; stackOffset="sign" lets low and high sit either side of 0
+  const chartData = useMemo(() => ranked.map(row => ({
+    label: parameterLabel(row.field, units),
+    low: isFinite(row[metric].low) ? metricToDisplay(metric, row[metric].low - base, units) : 0,
+    high: isFinite(row[metric].high) ? metricToDisplay(metric, row[metric].high - base, units) : 0,
+  })), [ranked, metric, base, units])
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as SensitivityMetric)}
+          className="px-2 py-0.5 border border-gray-300 rounded"
+        >
+          {(Object.keys(SENSITIVITY_METRICS) as SensitivityMetric[]).map(key => (
+            <option key={key} value={key}>{localizeLabel(SENSITIVITY_METRICS[key], units)}</option>
+          ))}
+        </select>
+        <select
+          value={sensitivity.mode}
+          onChange={(e) => onChange({ ...sensitivity, mode: e.target.value as SensitivityMode })}
+          className="px-2 py-0.5 border border-gray-300 rounded"
+        >
+          {(Object.keys(SENSITIVITY_MODES) as SensitivityMode[]).map(mode => (
+            <option key={mode} value={mode}>{SENSITIVITY_MODES[mode]}</option>
+          ))}
+        </select>
+        <label className={`flex items-center gap-1 text-gray-700 ${sensitivity.mode === 'range' ? 'opacity-40' : ''}`}>
+          ±
+          <input
+            type="number"
+            min={1}
+            max={90}
+            value={sensitivity.percent}
+            disabled={sensitivity.mode === 'range'}
+            onChange={(e) => onChange({ ...sensitivity, percent: Math.min(Math.max(Number(e.target.value), 1), 90) })}
+            className="w-16 px-2 py-0.5 border border-gray-300 rounded"
+          />
+          %
+        </label>
+        <span className="text-gray-500">Current: {format(toUnits(base))}</span>
+      </div>
+
+      {/* Tornado */}
+      <div style={{ height: Math.max(200, chartData.length * 28 + 60) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="2 2" stroke="#f0f0f0" />
+            <XAxis
+              type="number"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 12, fill: '#666' }}
+              tickFormatter={format}
+            />
+            <YAxis type="category" dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#666' }} width={140} />
+            <Tooltip
+              formatter={(value: number, name: string) => [`${value >= 0 ? '+' : ''}${format(value)}`, name]}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                fontSize: '12px'
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <ReferenceLine x={0} stroke="#9ca3af" />
+            <Bar dataKey="low" name="Input low" stackId="swing" fill="#f59e0b" isAnimationActive={false} />
+            <Bar dataKey="high" name="Input high" stackId="swing" fill="#3b82f6" isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Elasticities */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium py-1">Input</th>
+              <th className="text-right font-medium py-1">Low</th>
+              <th className="text-right font-medium py-1">High</th>
+              <th className="text-right font-medium py-1">Swing</th>
+              <th className="text-right font-medium py-1">{localizeLabel('ε cost / mile', units)}</th>
+              <th className="text-right font-medium py-1">{localizeLabel('ε margin / mile', units)}</th>
+              <th className="text-right font-medium py-1">ε fleet profit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map(row => (
+              <tr key={row.field} className="text-gray-700">
+                <td className="py-1 pr-2">{parameterLabel(row.field, units)}</td>
+                <td className="py-1 pr-2 text-right">{formatParameter(PARAMETERS[row.field], row.lowValue, units)}</td>
+                <td className="py-1 pr-2 text-right">{formatParameter(PARAMETERS[row.field], row.highValue, units)}</td>
+                <td className="py-1 pr-2 text-right">{format(toUnits(row[metric].swing))}</td>
+                <td className="py-1 pr-2 text-right">{formatElasticity(row.elasticity.totalCostPerMile)}</td>
+                <td className="py-1 pr-2 text-right">{formatElasticity(row.elasticity.marginPerMile)}</td>
+                <td className="py-1 text-right">{formatElasticity(row.elasticity.fleetProfitPerDay)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="text-[10px] text-gray-400 mt-1">
+          ε = % change in the output for a 1% change in the input, at the current configuration
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+import React from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { SimulationInputs, NumericInput, NUMERIC_INPUTS } from '../model/economics'
+import {
+  DistributionKind,
+  DISTRIBUTION_KINDS,
+  HistogramBin,
+  InputDistribution,
+  UncertaintyInputs,
+  UncertaintyResult,
+  defaultDistribution,
+} from '../model/uncertainty'
+import { UnitSettings, inputFromDisplay, inputToDisplay, localizeLabel, parameterLabel, toDisplay, unitFormat } from '../utils/units'
+
+interface UncertaintyPanelProps {
+  inputs: SimulationInputs
+  // Distribution bounds and result in model units; shown and typed in `units`
+  uncertainty: UncertaintyInputs
+  result: UncertaintyResult | null
+  units: UnitSettings
+  onChange: (uncertainty: UncertaintyInputs) => void
+}
+
+const formatPerMile = (value: number, units: UnitSettings) =>
+  isFinite(value) ? unitFormat(units).money(toDisplay(value, 'money-per-distance', units), 2) : value > 0 ? '∞' : '-∞'
+
+const tooltipStyle = {
+  backgroundColor: 'white',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  fontSize: '12px'
+}
+
+// Bins are categories on the X axis, so the zero marker snaps to the bin containing 0
+const zeroBinX = (bins: HistogramBin[]) => {
+  if (bins.length === 0 || bins[0].x > 0 || bins[bins.length - 1].x < 0) return undefined
+  return bins.reduce((closest, bin) => Math.abs(bin.x) < Math.abs(closest) ? bin.x : closest, Infinity)
+}
+
+// Bins arrive in model units (per mile, dollars) and are drawn in `units`
+const Histogram: React.FC<{ title: string; bins: HistogramBin[]; color: string; units: UnitSettings; zeroLine?: boolean }> = ({
+  title, bins: modelBins, color, units, zeroLine,
+}) => {
+  const bins = modelBins.map(bin => ({ ...bin, x: toDisplay(bin.x, 'money-per-distance', units) }))
+  const f = unitFormat(units)
+  const zeroX = zeroLine ? zeroBinX(bins) : undefined
+  return (
+    <div className="h-[200px]">
+      <div className="text-xs font-medium text-gray-700 mb-1">{title}</div>
+      <ResponsiveContainer width="100%" height="90%">
+        <BarChart data={bins} margin={{ top: 5, right: 10, left: 0, bottom: 5 }} barCategoryGap={1}>
+          <CartesianGrid strokeDasharray="2 2" stroke="#f0f0f0" />
+          <XAxis
+            dataKey="x"
+            axisLine={false}
+            tickLine={false}
+            tick={{ fontSize: 10, fill: '#666' }}
+            tickFormatter={(value: number) => f.number(value, 2)}
+          />
+          <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#666' }} width={35} />
+          <Tooltip
+            formatter={(value: number) => [value, 'Samples']}
+            labelFormatter={(label: number) => `≈ ${f.money(label, 2)}`}
+            contentStyle={tooltipStyle}
+          />
+          {zeroX !== undefined && <ReferenceLine x={zeroX} stroke="#ff6b6b" strokeDasharray="4 4" />}
+          <Bar dataKey="count" fill={color} isAnimationActive={false} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+export const UncertaintyPanel: React.FC<UncertaintyPanelProps> = ({ inputs, uncertainty, result, units, onChange }) => {
+  const fields = Object.keys(uncertainty.distributions) as NumericInput[]
+  const available = (Object.keys(NUMERIC_INPUTS) as NumericInput[]).filter(field => !fields.includes(field))
+
+  const setDistributions = (distributions: UncertaintyInputs['distributions']) => onChange({ ...uncertainty, distributions })
+
+  const addField = (field: NumericInput) => {
+    setDistributions({ ...uncertainty.distributions, [field]: defaultDistribution(inputs[field]) })
+  }
+
+  const updateField = (field: NumericInput, patch: Partial<InputDistribution>) => {
+    const current = uncertainty.distributions[field]
+    if (!current) return
+    setDistributions({ ...uncertainty.distributions, [field]: { ...current, ...patch } })
+  }
+
+  const removeField = (field: NumericInput) => {
+    const distributions = { ...uncertainty.distributions }
+    delete distributions[field]
+    setDistributions(distributions)
+  }
+
+  // All four are in the input's units, so they convert alike
+  const numberCell = (field: NumericInput, key: 'min' | 'mode' | 'max' | 'sd', disabled = false) => (
+    <td className="py-1 pr-2">
+      <input
+        type="number"
+        value={Number(inputToDisplay(field, uncertainty.distributions[field]?.[key] ?? 0, units).toPrecision(6))}
+        disabled={disabled}
+        onChange={(e) => updateField(field, { [key]: inputFromDisplay(field, Number(e.target.value), units) })}
+        className={`w-20 px-2 py-0.5 border border-gray-300 rounded ${disabled ? 'opacity-40' : ''}`}
+      />
+    </td>
+  )
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Summary */}
+      {result ? (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="text-center">
+            <div className={`text-lg font-bold ${result.probabilityProfitable < 0.5 ? 'text-red-600' : 'text-gray-900'}`}>
+              {(result.probabilityProfitable * 100).toFixed(1)}%
+            </div>
+            <div className="text-xs text-gray-500 mt-1">P(margin &gt; 0)</div>
+          </div>
+          <div className="text-center">
+            <div className="text-sm font-bold text-gray-900">
+              {formatPerMile(result.marginPerMile.p10, units)} / {formatPerMile(result.marginPerMile.p50, units)} / {formatPerMile(result.marginPerMile.p90, units)}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">{localizeLabel('Margin / mile', units)} P10 / P50 / P90</div>
+          </div>
+          <div className="text-center">
+            <div className="text-sm font-bold text-gray-900">
+              {formatPerMile(result.totalCostPerMile.p10, units)} / {formatPerMile(result.totalCostPerMile.p50, units)} / {formatPerMile(result.totalCostPerMile.p90, units)}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">{localizeLabel('Cost / mile', units)} P10 / P50 / P90</div>
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm text-gray-500">
+          Add a distribution to any input to run a Monte Carlo simulation through the cost model.
+        </div>
+      )}
+
+      {/* Distributions */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium py-1">Input</th>
+              <th className="text-left font-medium py-1">Distribution</th>
+              <th className="text-left font-medium py-1">Min</th>
+              <th className="text-left font-medium py-1">Mode / mean</th>
+              <th className="text-left font-medium py-1">Max</th>
+              <th className="text-left font-medium py-1">SD</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map(field => {
+              const dist = uncertainty.distributions[field]
+              if (!dist) return null
+              return (
+                <tr key={field}>
+                  <td className="py-1 pr-2 text-gray-700">{parameterLabel(field, units)}</td>
+                  <td className="py-1 pr-2">
+                    <select
+                      value={dist.kind}
+                      onChange={(e) => updateField(field, { kind: e.target.value as DistributionKind })}
+                      className="px-2 py-0.5 border border-gray-300 rounded"
+                    >
+                      {(Object.keys(DISTRIBUTION_KINDS) as DistributionKind[]).map(kind => (
+                        <option key={kind} value={kind}>{DISTRIBUTION_KINDS[kind]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  {numberCell(field, 'min')}
+                  {numberCell(field, 'mode', dist.kind === 'uniform')}
+                  {numberCell(field, 'max')}
+                  {numberCell(field, 'sd', dist.kind === 'uniform' || dist.kind === 'triangular')}
+                  <td className="py-1">
+                    <button onClick={() => removeField(field)} className="text-gray-400 hover:text-red-600">✕</button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap items-center gap-3 mt-2 text-xs">
+          <select
+            value=""
+            onChange={(e) => e.target.value && addField(e.target.value as NumericInput)}
+            className="px-2 py-0.5 border border-gray-300 rounded"
+          >
+            <option value="">+ Add uncertain input</option>
+            {available.map(field => (
+              <option key={field} value={field}>{parameterLabel(field, units)}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-gray-700">
+            Samples
+            <input
+              type="number"
+              min={100}
+              max={20000}
+              step={100}
+              value={uncertainty.samples}
+              onChange={(e) => onChange({ ...uncertainty, samples: Math.min(Math.max(Number(e.target.value), 100), 20000) })}
+              className="w-20 px-2 py-0.5 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-gray-700">
+            Seed
+            <input
+              type="number"
+              value={uncertainty.seed}
+              onChange={(e) => onChange({ ...uncertainty, seed: Math.round(Number(e.target.value)) })}
+              className="w-20 px-2 py-0.5 border border-gray-300 rounded"
+            />
+          </label>
+        </div>
+      </div>
+
+      {/* Distributions of outputs */}
+      {result && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Histogram title={localizeLabel('Margin / mile ($)', units)} bins={result.marginHistogram} color="#f59e0b" units={units} zeroLine />
+          <Histogram title={localizeLabel('Cost / mile ($)', units)} bins={result.costHistogram} color="#3b82f6" units={units} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import React from 'react'
+import { Currency, CURRENCIES, DistanceUnit, DISTANCE_UNITS, INDICATIVE_RATES, UnitSettings } from '../utils/units'
+
+interface UnitSettingsPanelProps {
+  units: UnitSettings
+  onChange: (units: UnitSettings) => void
+}
+
+const selectClass = 'w-full px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm'
+
+// Display units only: the model, saved scenarios and share links stay in dollars and miles
+export const UnitSettingsPanel: React.FC<UnitSettingsPanelProps> = ({ units, onChange }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <label className="text-sm font-medium text-gray-700 mb-1 block">Distance</label>
+        <select
+          value={units.distance}
+          onChange={(e) => onChange({ ...units, distance: e.target.value as DistanceUnit })}
+          className={selectClass}
+        >
+          {(Object.keys(DISTANCE_UNITS) as DistanceUnit[]).map(unit => (
+            <option key={unit} value={unit}>{DISTANCE_UNITS[unit]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="text-sm font-medium text-gray-700 mb-1 block">Currency</label>
+        <select
+          value={units.currency}
+          onChange={(e) => {
+            const currency = e.target.value as Currency
+            onChange({ ...units, currency, exchangeRate: INDICATIVE_RATES[currency] })
+          }}
+          className={selectClass}
+        >
+          {(Object.keys(CURRENCIES) as Currency[]).map(currency => (
+            <option key={currency} value={currency}>{currency} · {CURRENCIES[currency]}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+    {units.currency !== 'USD' && (
+      <div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          1 USD =
+          <input
+            type="number"
+            value={units.exchangeRate}
+            min={0}
+            step="any"
+            onChange={(e) => {
+              const rate = e.target.valueAsNumber
+              if (isFinite(rate) && rate > 0) onChange({ ...units, exchangeRate: rate })
+            }}
+            className="w-24 px-2 py-0.5 border border-gray-300 rounded text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {units.currency}
+        </label>
+        <div className="text-xs text-gray-500 mt-1">
+          Starts at an indicative rate. Enter your own; it converts every money figure.
+        </div>
+      </div>
+    )}
+  </div>
+)
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest'
+import {
+  SimulationInputs,
+  SimulationMetrics,
+  breakEvenUtilizationPercent,
+  calculateMetrics,
+  decliningBalanceSchedule,
+  variableCostItems,
+} from './economics'
+import { PRESETS } from './presets'
+
+type PinnedMetrics = Partial<Record<keyof SimulationMetrics, number>>
+
+// Pinned to 6 decimal places; a change here is a change to the model
+const expectMetrics = (inputs: SimulationInputs, expected: PinnedMetrics) => {
+  const metrics = calculateMetrics(inputs)
+  for (const [key, value] of Object.entries(expected) as [keyof SimulationMetrics, number][]) {
+    expect(metrics[key], key).toBeCloseTo(value, 6)
+  }
+}
+
+// Margin is zero at the reported break-even utilization
+const expectBreakEven = (inputs: SimulationInputs, expected: number | null) => {
+  const breakEven = breakEvenUtilizationPercent(inputs)
+  if (expected === null) {
+    expect(breakEven).toBeNull()
+    return
+  }
+  expect(breakEven).toBeCloseTo(expected, 6)
+  expect(calculateMetrics({ ...inputs, utilizationPercent: breakEven! }).marginPerMile).toBeCloseTo(0, 9)
+}
+
+const SCALING_CITY = PRESETS['Scaling city']
+
+describe('presets', () => {
+  it('Early launch', () => {
+    const inputs = PRESETS['Early launch']
+    expectMetrics(inputs, {
+      vehicleLifetimeDays: 1825,
+      vehicleCostPerDay: 200000 / 1825,
+      teleopsAndOpsPerDay: 213.333333,
+      paidMilesPerDay: 30,
+      revenuePerPaidMile: 3.5,
+      variableCostPerPaidMile: 0.8,
+      totalCostPerMile: 11.564079,
+      marginPerMile: -8.064079,
+      fleetProfitPerYear: -44150833.333333,
+    })
+    expectBreakEven(inputs, 99.667400)
+  })
+
+  it('Scaling city', () => {
+    expectMetrics(SCALING_CITY, {
+      vehicleLifetimeDays: 1825,
+      vehicleCostPerDay: 170000 / 1825,
+      teleopsAndOpsPerDay: 160,
+      paidMilesPerDay: 67.2,
+      revenuePerPaidMile: 2.5,
+      variableCostPerPaidMile: 0.6,
+      totalCostPerMile: 4.367123,
+      marginPerMile: -1.867123,
+      fleetProfitPerYear: -91593600,
+    })
+    expectBreakEven(SCALING_CITY, 79.307859)
+  })
+
+  it('Mature city', () => {
+    const inputs = PRESETS['Mature city']
+    expectMetrics(inputs, {
+      vehicleLifetimeDays: 1825,
+      vehicleCostPerDay: 50000 / 1825,
+      teleopsAndOpsPerDay: 11,
+      paidMilesPerDay: 204,
+      revenuePerPaidMile: 2.2,
+      variableCostPerPaidMile: 0.15,
+      totalCostPerMile: 0.338222,
+      marginPerMile: 1.861778,
+      fleetProfitPerYear: 13862800000,
+    })
+    expectBreakEven(inputs, 7.345243)
+  })
+
+  it('covers every preset', () => {
+    expect(Object.keys(PRESETS)).toEqual(['Early launch', 'Scaling city', 'Mature city'])
+  })
+})
+
+describe('odometer depreciation', () => {
+  it('retires at lifetime miles when they run out before lifetime years', () => {
+    const inputs: SimulationInputs = { ...SCALING_CITY, depreciationMethod: 'odometer', vehicleLifetimeMiles: 150000, utilizationPercent: 70 }
+    expectMetrics(inputs, {
+      vehicleLifetimeDays: 150000 / 210,
+      vehicleCostPerDay: 238,
+      paidMilesPerDay: 117.6,
+      totalCostPerMile: 3.984354,
+      marginPerMile: -1.484354,
+      fleetProfitPerYear: -127428800,
+    })
+    // Per-mile depreciation above the contribution margin: no utilization breaks even
+    expectBreakEven(inputs, null)
+  })
+
+  it('falls back to lifetime years at low utilization', () => {
+    const inputs: SimulationInputs = { ...PRESETS['Mature city'], depreciationMethod: 'odometer', vehicleLifetimeMiles: 150000 }
+    expectMetrics(inputs, {
+      vehicleLifetimeDays: 625,
+      vehicleCostPerDay: 80,
+      totalCostPerMile: 0.596078,
+      marginPerMile: 1.603922,
+    })
+    expectBreakEven(inputs, 7.345243)
+  })
+})
+
+describe('declining-balance depreciation', () => {
+  const inputs: SimulationInputs = { ...SCALING_CITY, depreciationMethod: 'declining-balance' }
+
+  it('front-loads the schedule, switches to straight-line and writes off the vehicle cost', () => {
+    const schedule = decliningBalanceSchedule(inputs)
+    expect(schedule).toHaveLength(5)
+    ;[68000, 40800, 24480, 18360, 18360].forEach((charge, year) => expect(schedule[year]).toBeCloseTo(charge, 6))
+    expect(schedule.reduce((sum, charge) => sum + charge, 0)).toBeCloseTo(170000, 6)
+  })
+
+  it('writes off the vehicle cost over a part-year lifetime', () => {
+    const schedule = decliningBalanceSchedule({ ...inputs, vehicleLifetimeYears: 5.5 })
+    expect(schedule).toHaveLength(6)
+    expect(schedule.reduce((sum, charge) => sum + charge, 0)).toBeCloseTo(170000, 6)
+  })
+
+  it('charges a new vehicle its first-year charge, above straight-line', () => {
+    expectMetrics(inputs, {
+      vehicleLifetimeDays: 1825,
+      vehicleCostPerDay: 68000 / 365,
+      totalCostPerMile: 5.753294,
+      marginPerMile: -3.253294,
+    })
+    // Straight-line breaks even at 79.3%; the first year's charge puts it out of reach
+    expectBreakEven(inputs, null)
+  })
+
+  it('charges an older vehicle that year of the schedule, below straight-line', () => {
+    const older: SimulationInputs = { ...inputs, vehicleAgeYears: 3 }
+    expectMetrics(older, {
+      vehicleCostPerDay: 18360 / 365,
+      totalCostPerMile: 3.729485,
+      marginPerMile: -1.229485,
+    })
+    expectBreakEven(older, 65.883888)
+    // Past the end of the life, the final year's charge
+    expectMetrics({ ...inputs, vehicleAgeYears: 9 }, { vehicleCostPerDay: 18360 / 365 })
+  })
+
+  it('spreads a part-year final charge over the part year', () => {
+    const partYear: SimulationInputs = { ...inputs, vehicleLifetimeYears: 5.5, vehicleAgeYears: 5 }
+    const schedule = decliningBalanceSchedule(partYear)
+    expectMetrics(partYear, { vehicleCostPerDay: schedule[5] / (0.5 * 365), totalCostPerMile: 3.695388 })
+    expectBreakEven(partYear, 65.166054)
+  })
+})
+
+describe('ops-hours mileage', () => {
+  it('derives daily miles from ops hours and average speed', () => {
+    const inputs: SimulationInputs = { ...SCALING_CITY, mileageModel: 'ops-hours' }
+    expectMetrics(inputs, {
+      serviceMilesCapacity: 360,
+      paidMilesPerDay: 80.64,
+      totalCostPerMile: 3.739269,
+      marginPerMile: -1.239269,
+    })
+    expectBreakEven(inputs, 66.089882)
+  })
+})
+
+describe('per-trip pricing', () => {
+  it('earns the fare spread over the trip length', () => {
+    const inputs: SimulationInputs = { ...SCALING_CITY, pricingMode: 'trip' }
+    expectMetrics(inputs, {
+      revenuePerTrip: 21.5,
+      revenuePerPaidMile: 4.3,
+      tripsPerVehiclePerDay: 13.44,
+      totalCostPerMile: 4.367123,
+      marginPerMile: -0.067123,
+      fleetProfitPerYear: -3292800,
+    })
+    expectBreakEven(inputs, 40.725657)
+  })
+})
+
+describe('itemized variable cost', () => {
+  const inputs: SimulationInputs = { ...SCALING_CITY, variableCostMode: 'itemized' }
+
+  it('rolls electric line items up to cost per paid mile', () => {
+    const items = variableCostItems(inputs)
+    // Per-mile items are per mile driven; 56% of miles are paid
+    expect(items.energy).toBeCloseTo(0.3 * 0.18 / 0.56, 9)
+    expect(items.maintenance).toBeCloseTo(0.08 / 0.56, 9)
+    expect(items.tires).toBeCloseTo(0.02 / 0.56, 9)
+    expect(items.insurance).toBeCloseTo(0.08 / 0.56, 9)
+    expect(items.cleaning).toBeCloseTo(0.75 / 5, 9)
+    expect(items.calibration).toBeCloseTo(0.01 / 0.56, 9)
+    expectMetrics(inputs, {
+      variableCostPerPaidMile: 0.585714,
+      totalCostPerMile: 4.352838,
+      marginPerMile: -1.852838,
+      fleetProfitPerYear: -90892800,
+    })
+    expectBreakEven(inputs, 78.716009)
+  })
+
+  it('prices fuel by the gallon', () => {
+    const fuel: SimulationInputs = { ...inputs, energySource: 'fuel' }
+    expect(variableCostItems(fuel).energy).toBeCloseTo(3.8 / 30 / 0.56, 9)
+    expectMetrics(fuel, {
+      variableCostPerPaidMile: 0.715476,
+      totalCostPerMile: 4.482599,
+      marginPerMile: -1.982599,
+    })
+    expectBreakEven(fuel, 84.439855)
+  })
+
+  it('ignores the flat figure', () => {
+    expectMetrics({ ...inputs, variableCostPerMile: 2 }, { variableCostPerPaidMile: 0.585714 })
+  })
+})
@@ -0,0 +1,425 @@
+import { PARAMETERS, PARAMETER_KEYS } from './parameters'
+
+// =============================================================================
+// Economics Engine — Robotaxi Cost Model
+// =============================================================================
+// Single source of truth for the unit economics. Used by the app (src/App.tsx),
+// the chat API (api/chat.ts) and the batch runner (scripts/simulate-batch.ts).
+// Everything in here is pure: same inputs, same numbers, no React, no I/O.
+//
+// Formulas:
+//   vehicleLifetimeDays      = vehicleLifetimeYears * 365
+//                              (odometer: min(that, vehicleLifetimeMiles / milesPerDay))
+//   vehicleCostPerDay        = vehicleCost / vehicleLifetimeDays
+//                              (declining balance: the schedule's charge for the year vehicleAgeYears
+//                              falls in, spread over that year; see decliningBalanceSchedule)
+//   teleopsAndOpsPerDay      = (operatorCostPerHour * opsHoursPerDay) / vehiclesPerOperator
+//   fixedDailyCost           = vehicleCostPerDay + teleopsAndOpsPerDay
+//   utilizationDecimal       = utilizationPercent / 100
+//   deadheadDecimal          = min(deadheadPercent / 100, 0.95)
+//   serviceMilesCapacity     = maxMilesPerDay                          (fixed-cap mileage)
+//                            = opsHoursPerDay * avgSpeedMph            (ops-hours mileage)
+//   milesPerDay              = serviceMilesCapacity * utilizationDecimal
+//   paidMilesPerDay          = milesPerDay * (1 - deadheadDecimal)
+//   totalCostPerMile         = (fixedDailyCost / paidMilesPerDay) + variableCostPerPaidMile
+//                            = vehicleCostPerPaidMile + teleopsCostPerPaidMile + variableCostPerPaidMile
+//   vehicleCostPerPaidMile   = vehicleCostPerDay / paidMilesPerDay
+//   teleopsCostPerPaidMile   = teleopsAndOpsPerDay / paidMilesPerDay
+//   marginPerMile            = revenuePerPaidMile - totalCostPerMile
+//   breakEvenUtilization     = fixedDailyCost / (serviceMilesCapacity * (1-deadheadDecimal) * (revenuePerPaidMile - variableCostPerPaidMile))
+//                              (odometer: piecewise, see breakEvenUtilizationPercent)
+//
+// Revenue:
+//   revenuePerPaidMile       = revenuePerMile                          (per-mile pricing)
+//                            = revenuePerTrip / avgTripMiles           (trip pricing)
+//   tripMinutes              = avgTripMiles / avgSpeedMph * 60
+//   revenuePerTrip           = baseFare + bookingFee + revenuePerMile * avgTripMiles + perMinuteRate * tripMinutes
+//   tripsPerVehiclePerDay    = paidMilesPerDay / avgTripMiles
+//
+// Variable cost:
+//   variableCostPerPaidMile  = variableCostPerMile                     (flat)
+//                            = sum of the items below                  (itemized)
+//   Per-mile items are per mile driven, deadhead included, so each is divided
+//   by the paid share (1 - deadheadDecimal) to land per paid mile:
+//   energy                   = kwhPerMile * electricityPrice / paid share   (electric)
+//                            = fuelPrice / milesPerGallon / paid share      (fuel)
+//   maintenance, tires,
+//   insurance, calibration   = <item>PerMile / paid share
+//   cleaning                 = cleaningPerTrip / avgTripMiles
+//
+// Fleet P&L (per day; annual = daily * 365):
+//   fleetPaidMiles           = paidMilesPerDay * fleetSize
+//   fleetRevenue             = fleetPaidMiles * revenuePerPaidMile
+//   fleetVariableCost        = fleetPaidMiles * variableCostPerPaidMile
+//   fleetFixedCost           = fixedDailyCost * fleetSize
+//   fleetContribution        = fleetRevenue - fleetVariableCost
+//   fleetProfit              = fleetContribution - fleetFixedCost
+// =============================================================================
+
+// How vehicle cost is spread over its life:
+//   straight-line      evenly over vehicleLifetimeYears (calendar time)
+//   odometer           evenly over the vehicle's life, which ends at vehicleLifetimeYears
+//                      or vehicleLifetimeMiles, whichever is hit first
+//   declining-balance  double the straight-line rate on the remaining book value, switching
+//                      to straight-line once that is larger; front-loaded, so a young
+//                      vehicle (vehicleAgeYears) costs more per day than straight-line and
+//                      an old one less, while the full schedule writes off exactly vehicleCost
+export type DepreciationMethod = 'straight-line' | 'odometer' | 'declining-balance'
+
+// How fares are built:
+//   per-mile  revenuePerMile on every paid mile
+//   trip      base fare + booking fee + per-mile (revenuePerMile) + per-minute, per trip
+export type PricingMode = 'per-mile' | 'trip'
+
+// Where daily miles come from:
+//   fixed-cap   maxMilesPerDay at 100% utilization, regardless of ops hours
+//   ops-hours   opsHoursPerDay * avgSpeedMph at 100% utilization, so longer
+//               service days add miles as well as teleops cost
+export type MileageModel = 'fixed-cap' | 'ops-hours'
+
+// Where variable cost per paid mile comes from:
+//   flat      variableCostPerMile, one all-in figure
+//   itemized  energy, maintenance, tires, insurance, cleaning and a sensor-calibration
+//             reserve, each from its own inputs (see variableCostItems)
+export type VariableCostMode = 'flat' | 'itemized'
+
+// The energy item under itemized variable cost: electricity or fuel
+export type EnergySource = 'electric' | 'fuel'
+
+export type VariableCostItem = 'energy' | 'maintenance' | 'tires' | 'insurance' | 'cleaning' | 'calibration'
+
+export interface SimulationInputs {
+  fleetSize: number
+  vehiclesPerOperator: number
+  vehicleCost: number
+  opsHoursPerDay: number
+  deadheadPercent: number
+  variableCostPerMile: number
+  variableCostMode: VariableCostMode
+  energySource: EnergySource
+  kwhPerMile: number
+  electricityPrice: number
+  milesPerGallon: number
+  fuelPrice: number
+  maintenancePerMile: number
+  tiresPerMile: number
+  insurancePerMile: number
+  cleaningPerTrip: number
+  calibrationPerMile: number
+  revenuePerMile: number
+  pricingMode: PricingMode
+  avgTripMiles: number
+  avgSpeedMph: number
+  baseFare: number
+  perMinuteRate: number
+  bookingFee: number
+  utilizationPercent: number
+  mileageModel: MileageModel
+  vehicleLifetimeYears: number
+  depreciationMethod: DepreciationMethod
+  vehicleLifetimeMiles: number
+  vehicleAgeYears: number
+  // Advanced assumptions
+  operatorCostPerHour: number
+  maxMilesPerDay: number
+}
+
+// Inputs that are plain numbers (everything except the mode selectors)
+export type NumericInput = {
+  [K in keyof SimulationInputs]: SimulationInputs[K] extends number ? K : never
+}[keyof SimulationInputs]
+
+export interface SimulationMetrics {
+  // Intermediates
+  vehicleLifetimeDays: number
+  vehicleCostPerDay: number
+  teleopsAndOpsPerDay: number
+  fixedDailyCost: number
+  utilizationDecimal: number
+  deadheadDecimal: number
+  serviceMilesCapacity: number
+  milesPerDay: number
+  paidMilesPerDay: number
+  revenuePerPaidMile: number
+  revenuePerTrip: number
+  tripsPerVehiclePerDay: number
+  // Cost per paid mile by component (sums to totalCostPerMile)
+  vehicleCostPerPaidMile: number
+  teleopsCostPerPaidMile: number
+  variableCostPerPaidMile: number
+  // Outputs
+  totalCostPerMile: number
+  marginPerMile: number
+  breakEvenUtilizationPercent: number | null
+  // Fleet P&L
+  fleetPaidMilesPerDay: number
+  fleetRevenuePerDay: number
+  fleetVariableCostPerDay: number
+  fleetFixedCostPerDay: number
+  fleetContributionPerDay: number
+  fleetProfitPerDay: number
+  fleetPaidMilesPerYear: number
+  fleetRevenuePerYear: number
+  fleetVariableCostPerYear: number
+  fleetFixedCostPerYear: number
+  fleetContributionPerYear: number
+  fleetProfitPerYear: number
+}
+
+export type MarginStatus = 'Losing' | 'Break-even' | 'Profitable'
+
+// Constants
+export const DAYS_PER_YEAR = 365
+export const DAYS_PER_MONTH = DAYS_PER_YEAR / 12
+export const MAX_DEADHEAD_DECIMAL = 0.95
+
+export const DEPRECIATION_METHODS: Record<DepreciationMethod, string> = {
+  'straight-line': 'Straight-line (years)',
+  'odometer': 'Odometer (years or miles)',
+  'declining-balance': 'Declining balance',
+}
+
+export const PRICING_MODES: Record<PricingMode, string> = {
+  'per-mile': 'Flat per mile',
+  'trip': 'Trip-based fare',
+}
+
+export const MILEAGE_MODELS: Record<MileageModel, string> = {
+  'fixed-cap': 'Fixed max miles / day',
+  'ops-hours': 'Ops hours × avg speed',
+}
+
+export const VARIABLE_COST_MODES: Record<VariableCostMode, string> = {
+  'flat': 'Single per-mile figure',
+  'itemized': 'Itemized',
+}
+
+export const ENERGY_SOURCES: Record<EnergySource, string> = {
+  'electric': 'Electric (kWh × price)',
+  'fuel': 'Fuel (price ÷ mpg)',
+}
+
+export const VARIABLE_COST_ITEMS: Record<VariableCostItem, string> = {
+  energy: 'Energy',
+  maintenance: 'Maintenance',
+  tires: 'Tires',
+  insurance: 'Insurance',
+  cleaning: 'Cleaning',
+  calibration: 'Sensor calibration',
+}
+
+// Axis and select labels, with the unit where the label doesn't carry it
+export const NUMERIC_INPUTS = Object.fromEntries(
+  PARAMETER_KEYS.map(key => [key, PARAMETERS[key].unit ? `${PARAMETERS[key].label} (${PARAMETERS[key].unit})` : PARAMETERS[key].label])
+) as Record<NumericInput, string>
+
+// Margin per mile at or below this is reported as "Break-even" rather than "Profitable"
+export const BREAK_EVEN_BAND = 0.25
+
+const teleopsPerDay = (params: SimulationInputs) =>
+  (params.operatorCostPerHour * params.opsHoursPerDay) / params.vehiclesPerOperator
+
+// Double-declining annual rate, capped so a 1-year life writes off at most 100%
+const decliningBalanceRate = (params: SimulationInputs) => Math.min(2 / params.vehicleLifetimeYears, 1)
+
+// Declining-balance charge for each year of a vehicle's life (the last one partial
+// when the lifetime isn't whole years). Switches to straight-line on the remaining
+// book value once that charges more, and writes off the full vehicle cost.
+export function decliningBalanceSchedule(params: SimulationInputs): number[] {
+  const years = params.vehicleLifetimeYears
+  const rate = decliningBalanceRate(params)
+  const charges: number[] = []
+  let bookValue = params.vehicleCost
+  for (let year = 0; year < years; year++) {
+    const remainingYears = years - year
+    if (remainingYears <= 1) {
+      charges.push(bookValue)
+      break
+    }
+    const charge = Math.max(bookValue * rate, bookValue / remainingYears)
+    charges.push(charge)
+    bookValue -= charge
+  }
+  return charges
+}
+
+// Depreciation charge per vehicle per day under the selected method
+function vehicleDepreciation(params: SimulationInputs, milesPerDay: number) {
+  const calendarDays = params.vehicleLifetimeYears * DAYS_PER_YEAR
+  switch (params.depreciationMethod) {
+    case 'odometer': {
+      const odometerDays = milesPerDay > 0 ? params.vehicleLifetimeMiles / milesPerDay : Infinity
+      const vehicleLifetimeDays = Math.min(calendarDays, odometerDays)
+      return { vehicleLifetimeDays, vehicleCostPerDay: params.vehicleCost / vehicleLifetimeDays }
+    }
+    case 'declining-balance': {
+      // This year's charge; the last year of a part-year life is shorter
+      const schedule = decliningBalanceSchedule(params)
+      const year = Math.min(Math.max(Math.floor(params.vehicleAgeYears), 0), schedule.length - 1)
+      const yearDays = Math.min(1, params.vehicleLifetimeYears - year) * DAYS_PER_YEAR
+      return { vehicleLifetimeDays: calendarDays, vehicleCostPerDay: schedule[year] / yearDays }
+    }
+    case 'straight-line':
+    default:
+      return { vehicleLifetimeDays: calendarDays, vehicleCostPerDay: params.vehicleCost / calendarDays }
+  }
+}
+
+// Miles a vehicle would drive per day at 100% utilization
+export function serviceMilesCapacity(params: SimulationInputs): number {
+  return params.mileageModel === 'ops-hours'
+    ? params.opsHoursPerDay * params.avgSpeedMph
+    : params.maxMilesPerDay
+}
+
+// Average fare per trip under the selected pricing mode
+export function revenuePerTrip(params: SimulationInputs): number {
+  if (params.pricingMode !== 'trip') return params.revenuePerMile * params.avgTripMiles
+  const tripMinutes = params.avgSpeedMph > 0 ? (params.avgTripMiles / params.avgSpeedMph) * 60 : 0
+  return params.baseFare
+    + params.bookingFee
+    + params.revenuePerMile * params.avgTripMiles
+    + params.perMinuteRate * tripMinutes
+}
+
+// Effective revenue per paid mile; with trip pricing, short trips earn more per mile
+export function revenuePerPaidMile(params: SimulationInputs): number {
+  if (params.pricingMode !== 'trip' || params.avgTripMiles <= 0) return params.revenuePerMile
+  return revenuePerTrip(params) / params.avgTripMiles
+}
+
+// Itemized variable cost per paid mile, by line item
+export function variableCostItems(params: SimulationInputs): Record<VariableCostItem, number> {
+  const paidShare = 1 - Math.min(params.deadheadPercent / 100, MAX_DEADHEAD_DECIMAL)
+  const energyPerMile = params.energySource === 'fuel'
+    ? (params.milesPerGallon > 0 ? params.fuelPrice / params.milesPerGallon : 0)
+    : params.kwhPerMile * params.electricityPrice
+  return {
+    energy: energyPerMile / paidShare,
+    maintenance: params.maintenancePerMile / paidShare,
+    tires: params.tiresPerMile / paidShare,
+    insurance: params.insurancePerMile / paidShare,
+    cleaning: params.avgTripMiles > 0 ? params.cleaningPerTrip / params.avgTripMiles : 0,
+    calibration: params.calibrationPerMile / paidShare,
+  }
+}
+
+// Variable cost per paid mile under the selected variable cost mode
+export function variableCostPerPaidMile(params: SimulationInputs): number {
+  if (params.variableCostMode !== 'itemized') return params.variableCostPerMile
+  return Object.values(variableCostItems(params)).reduce((sum, cost) => sum + cost, 0)
+}
+
+export function calculateMetrics(params: SimulationInputs): SimulationMetrics {
+  const utilizationDecimal = params.utilizationPercent / 100
+  const deadheadDecimal = Math.min(params.deadheadPercent / 100, MAX_DEADHEAD_DECIMAL)
+
+  const milesCapacity = serviceMilesCapacity(params)
+  const milesPerDay = milesCapacity * utilizationDecimal
+  const paidMilesPerDay = milesPerDay * (1 - deadheadDecimal)
+
+  const { vehicleLifetimeDays, vehicleCostPerDay } = vehicleDepreciation(params, milesPerDay)
+  const teleopsAndOpsPerDay = teleopsPerDay(params)
+  const fixedDailyCost = vehicleCostPerDay + teleopsAndOpsPerDay
+
+  const revenuePerMile = revenuePerPaidMile(params)
+  const variableCostPerMile = variableCostPerPaidMile(params)
+  const tripsPerVehiclePerDay = params.avgTripMiles > 0 ? paidMilesPerDay / params.avgTripMiles : 0
+
+  // Avoid division by zero
+  const vehicleCostPerPaidMile = paidMilesPerDay > 0 ? vehicleCostPerDay / paidMilesPerDay : Infinity
+  const teleopsCostPerPaidMile = paidMilesPerDay > 0 ? teleopsAndOpsPerDay / paidMilesPerDay : Infinity
+  const totalCostPerMile = paidMilesPerDay > 0
+    ? (fixedDailyCost / paidMilesPerDay) + variableCostPerMile
+    : Infinity
+  const marginPerMile = paidMilesPerDay > 0
+    ? revenuePerMile - totalCostPerMile
+    : -Infinity
+
+  const fleetPaidMilesPerDay = paidMilesPerDay * params.fleetSize
+  const fleetRevenuePerDay = fleetPaidMilesPerDay * revenuePerMile
+  const fleetVariableCostPerDay = fleetPaidMilesPerDay * variableCostPerMile
+  const fleetFixedCostPerDay = fixedDailyCost * params.fleetSize
+  const fleetContributionPerDay = fleetRevenuePerDay - fleetVariableCostPerDay
+  const fleetProfitPerDay = fleetContributionPerDay - fleetFixedCostPerDay
+
+  return {
+    vehicleLifetimeDays,
+    vehicleCostPerDay,
+    teleopsAndOpsPerDay,
+    fixedDailyCost,
+    utilizationDecimal,
+    deadheadDecimal,
+    serviceMilesCapacity: milesCapacity,
+    milesPerDay,
+    paidMilesPerDay,
+    revenuePerPaidMile: revenuePerMile,
+    revenuePerTrip: revenuePerTrip(params),
+    tripsPerVehiclePerDay,
+    vehicleCostPerPaidMile,
+    teleopsCostPerPaidMile,
+    variableCostPerPaidMile: variableCostPerMile,
+    totalCostPerMile,
+    marginPerMile,
+    breakEvenUtilizationPercent: breakEvenUtilizationPercent(params),
+    fleetPaidMilesPerDay,
+    fleetRevenuePerDay,
+    fleetVariableCostPerDay,
+    fleetFixedCostPerDay,
+    fleetContributionPerDay,
+    fleetProfitPerDay,
+    fleetPaidMilesPerYear: fleetPaidMilesPerDay * DAYS_PER_YEAR,
+    fleetRevenuePerYear: fleetRevenuePerDay * DAYS_PER_YEAR,
+    fleetVariableCostPerYear: fleetVariableCostPerDay * DAYS_PER_YEAR,
+    fleetFixedCostPerYear: fleetFixedCostPerDay * DAYS_PER_YEAR,
+    fleetContributionPerYear: fleetContributionPerDay * DAYS_PER_YEAR,
+    fleetProfitPerYear: fleetProfitPerDay * DAYS_PER_YEAR,
+  }
+}
+
+// Utilization at which marginPerMile = 0, holding everything else constant.
+// Returns null when no utilization in [0, 100]% breaks even.
+export function breakEvenUtilizationPercent(params: SimulationInputs): number | null {
+  const teleopsAndOpsPerDay = teleopsPerDay(params)
+  const deadheadDecimal = Math.min(params.deadheadPercent / 100, MAX_DEADHEAD_DECIMAL)
+  const paidMilesRatio = 1 - deadheadDecimal
+  if (paidMilesRatio <= 0) return null
+
+  // At break-even: marginPerMile = 0
+  // revenuePerMile - (fixedDailyCost / (milesCapacity * utilization * paidMilesRatio) + variableCostPerMile) = 0
+  // Solve for utilization:
+  // utilization = fixedDailyCost / (milesCapacity * paidMilesRatio * (revenuePerMile - variableCostPerMile))
+  const netRevenuePerMile = revenuePerPaidMile(params) - variableCostPerPaidMile(params)
+  if (netRevenuePerMile <= 0) return null
+
+  // Calendar-limited depreciation doesn't depend on mileage, so it sits in fixedDailyCost
+  const { vehicleCostPerDay } = vehicleDepreciation(params, 0)
+  const fixedDailyCost = vehicleCostPerDay + teleopsAndOpsPerDay
+  const milesCapacity = serviceMilesCapacity(params)
+  if (milesCapacity <= 0) return null
+  let breakEvenUtilization = fixedDailyCost / (milesCapacity * paidMilesRatio * netRevenuePerMile)
+
+  // Odometer: above odometerBindsAt the mileage cap retires the vehicle first, so
+  // depreciation becomes a per-mile cost and only teleops stays fixed. Margin rises
+  // with utilization in both regimes, so if the calendar solution lands past the
+  // switch point the real solution is in the mileage regime.
+  if (params.depreciationMethod === 'odometer') {
+    const odometerBindsAt = params.vehicleLifetimeMiles / (params.vehicleLifetimeYears * DAYS_PER_YEAR * milesCapacity)
+    if (breakEvenUtilization > odometerBindsAt) {
+      const depreciationPerPaidMile = params.vehicleCost / (params.vehicleLifetimeMiles * paidMilesRatio)
+      const netAfterDepreciation = netRevenuePerMile - depreciationPerPaidMile
+      if (netAfterDepreciation <= 0) return null
+      breakEvenUtilization = teleopsAndOpsPerDay / (milesCapacity * paidMilesRatio * netAfterDepreciation)
+    }
+  }
+
+  const breakEvenPercent = breakEvenUtilization * 100
+
+  return (breakEvenPercent >= 0 && breakEvenPercent <= 100) ? breakEvenPercent : null
+}
+
+export function getMarginStatus(marginPerMile: number): MarginStatus {
+  if (marginPerMile < 0) return 'Losing'
+  if (marginPerMile <= BREAK_EVEN_BAND) return 'Break-even'
+  return 'Profitable'
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { goalSeek } from './goalSeek'
+import { calculateMetrics } from './economics'
+import { PRESETS } from './presets'
+
+const SCALING_CITY = PRESETS['Scaling city']
+
+describe('goalSeek', () => {
+  it('solves a linear lever analytically', () => {
+    const result = goalSeek(SCALING_CITY, { metric: 'marginPerMile', target: 0, field: 'revenuePerMile' })
+    expect(result).toMatchObject({ solved: true, method: 'analytic' })
+    // Break-even price is the cost per mile
+    expect(result.solved && result.value).toBeCloseTo(calculateMetrics(SCALING_CITY).totalCostPerMile, 6)
+  })
+
+  it('solves a reciprocal lever analytically', () => {
+    const result = goalSeek(SCALING_CITY, { metric: 'totalCostPerMile', target: 3.5, field: 'vehiclesPerOperator' })
+    expect(result).toMatchObject({ solved: true, method: 'analytic' })
+    if (result.solved) {
+      expect(calculateMetrics({ ...SCALING_CITY, vehiclesPerOperator: result.value }).totalCostPerMile).toBeCloseTo(3.5, 6)
+    }
+  })
+
+  it('falls back to bisection for levers of neither shape', () => {
+    // Deadhead divides by (1 - deadhead), not by deadhead itself
+    const result = goalSeek(SCALING_CITY, { metric: 'marginPerMile', target: -1.5, field: 'deadheadPercent' })
+    expect(result).toMatchObject({ solved: true, method: 'numeric' })
+    if (result.solved) {
+      expect(calculateMetrics({ ...SCALING_CITY, deadheadPercent: result.value }).marginPerMile).toBeCloseTo(-1.5, 6)
+    }
+  })
+
+  it('reports the reachable range when the target is out of reach', () => {
+    const result = goalSeek(SCALING_CITY, { metric: 'marginPerMile', target: 10, field: 'fleetSize' })
+    expect(result.solved).toBe(false)
+    if (!result.solved) {
+      // Fleet size scales the fleet, not the per-mile figures
+      expect(result.reachable[0]).toBeCloseTo(calculateMetrics(SCALING_CITY).marginPerMile, 9)
+      expect(result.reachable[1]).toBeCloseTo(calculateMetrics(SCALING_CITY).marginPerMile, 9)
+    }
+  })
+
+  it('stays within the bounds it is given', () => {
+    const result = goalSeek(SCALING_CITY, { metric: 'marginPerMile', target: 0, field: 'revenuePerMile' }, { min: 2, max: 4 })
+    expect(result.solved).toBe(false)
+  })
+})
@@ -0,0 +1,154 @@
+import { SimulationInputs, NumericInput, calculateMetrics } from './economics'
+import { SLIDER_RANGES } from './parameters'
+
+// =============================================================================
+// Goal Seek
+// =============================================================================
+// Finds the value of one input that makes one output hit a target, holding
+// everything else at the current configuration. Searched within the input's
+// slider range unless the caller passes narrower bounds.
+//
+// Analytic: most levers enter the engine in one of two shapes,
+//   metric = a + b * x        (prices, costs, fleet size)
+//   metric = a + b / x        (anything that divides fixed cost: vehicles per
+//                              operator, utilization, miles capacity)
+// so two evaluations pin down a and b and the target can be solved directly.
+// The answer is then checked against the engine, because mode switches (e.g.
+// the odometer regime) can bend the curve; if the check fails we fall back.
+//
+// Numeric: scan the range for a sign change of (metric - target), then bisect.
+// =============================================================================
+
+export type GoalSeekMetric = 'totalCostPerMile' | 'marginPerMile' | 'fleetProfitPerDay' | 'fleetProfitPerYear'
+
+export type GoalSeekMethod = 'analytic' | 'numeric'
+
+export interface GoalSeekInputs {
+  metric: GoalSeekMetric
+  target: number
+  field: NumericInput
+}
+
+export type GoalSeekResult =
+  | { solved: true; value: number; method: GoalSeekMethod }
+  // Reachable range of the metric over the input's slider range, for the message
+  | { solved: false; reachable: [number, number] }
+
+export const GOAL_SEEK_METRICS: Record<GoalSeekMetric, string> = {
+  totalCostPerMile: 'Cost / mile',
+  marginPerMile: 'Margin / mile',
+  fleetProfitPerDay: 'Fleet profit / day',
+  fleetProfitPerYear: 'Fleet profit / yr',
+}
+
+export const DEFAULT_GOAL_SEEK_INPUTS: GoalSeekInputs = {
+  metric: 'marginPerMile',
+  target: 0.3,
+  field: 'vehicleCost',
+}
+
+const SCAN_STEPS = 200
+const BISECTION_ITERATIONS = 100
+// Relative tolerance when checking an analytic answer against the engine
+const CHECK_TOLERANCE = 1e-6
+
+type Shape = 'linear' | 'reciprocal'
+
+const transform = (shape: Shape, x: number) => shape === 'linear' ? x : 1 / x
+const inverse = (shape: Shape, t: number) => shape === 'linear' ? t : 1 / t
+
+function evaluate(params: SimulationInputs, goal: GoalSeekInputs, x: number): number {
+  return calculateMetrics({ ...params, [goal.field]: x })[goal.metric]
+}
+
+const closeTo = (value: number, target: number) =>
+  Math.abs(value - target) <= CHECK_TOLERANCE * Math.max(1, Math.abs(target))
+
+function solveAnalytic(params: SimulationInputs, goal: GoalSeekInputs, min: number, max: number): number | null {
+  // Two interior points so the reciprocal shape never divides by zero
+  const x1 = min + (max - min) / 3
+  const x2 = min + (max - min) * 2 / 3
+  const y1 = evaluate(params, goal, x1)
+  const y2 = evaluate(params, goal, x2)
+  if (!isFinite(y1) || !isFinite(y2)) return null
+
+  for (const shape of ['linear', 'reciprocal'] as Shape[]) {
+    const t1 = transform(shape, x1)
+    const t2 = transform(shape, x2)
+    const slope = (y2 - y1) / (t2 - t1)
+    if (slope === 0) continue
+    const intercept = y1 - slope * t1
+
+    // The shape has to explain a third point too, or it's the wrong shape
+    const x3 = (min + max) / 2
+    if (!closeTo(evaluate(params, goal, x3), intercept + slope * transform(shape, x3))) continue
+
+    const t = (goal.target - intercept) / slope
+    if (t === 0 && shape === 'reciprocal') continue
+    const x = inverse(shape, t)
+    if (x < min || x > max) return null
+    return closeTo(evaluate(params, goal, x), goal.target) ? x : null
+  }
+  return null
+}
+
+function solveNumeric(params: SimulationInputs, goal: GoalSeekInputs, min: number, max: number): number | null {
+  const current = params[goal.field]
+  const gap = (x: number) => evaluate(params, goal, x) - goal.target
+
+  // Of all brackets in the range, take the one closest to the current value
+  let best: [number, number] | null = null
+  let previousX = min
+  let previousGap = gap(min)
+  if (previousGap === 0) best = [min, min]
+  for (let i = 1; i <= SCAN_STEPS; i++) {
+    const x = min + (max - min) * i / SCAN_STEPS
+    const g = gap(x)
+    const crosses = isFinite(previousGap) && isFinite(g) && (g === 0 || Math.sign(g) !== Math.sign(previousGap))
+    if (crosses) {
+      const distance = Math.min(Math.abs(previousX - current), Math.abs(x - current))
+      const bestDistance = best ? Math.min(Math.abs(best[0] - current), Math.abs(best[1] - current)) : Infinity
+      if (distance < bestDistance) best = [previousX, x]
+    }
+    previousX = x
+    previousGap = g
+  }
+  if (!best) return null
+
+  let [low, high] = best
+  let lowGap = gap(low)
+  for (let i = 0; i < BISECTION_ITERATIONS && high - low > 0; i++) {
+    const mid = (low + high) / 2
+    const midGap = gap(mid)
+    if (midGap === 0) return mid
+    if (Math.sign(midGap) === Math.sign(lowGap)) {
+      low = mid
+      lowGap = midGap
+    } else {
+      high = mid
+    }
+  }
+  return (low + high) / 2
+}
+
+export function goalSeek(
+  params: SimulationInputs,
+  goal: GoalSeekInputs,
+  { min, max } = SLIDER_RANGES[goal.field]
+): GoalSeekResult {
+  const analytic = solveAnalytic(params, goal, min, max)
+  if (analytic !== null) return { solved: true, value: analytic, method: 'analytic' }
+
+  const numeric = solveNumeric(params, goal, min, max)
+  if (numeric !== null) return { solved: true, value: numeric, method: 'numeric' }
+
+  const values: number[] = []
+  for (let i = 0; i <= SCAN_STEPS; i++) {
+    const value = evaluate(params, goal, min + (max - min) * i / SCAN_STEPS)
+    if (isFinite(value)) values.push(value)
+  }
+  return {
+    solved: false,
+    reachable: values.length > 0 ? [Math.min(...values), Math.max(...values)] : [NaN, NaN],
+  }
+}
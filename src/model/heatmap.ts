@@ -0,0 +1,92 @@
+import { SimulationInputs, NumericInput, calculateMetrics } from './economics'
+
+// =============================================================================
+// Two-input Margin Grid
+// =============================================================================
+// Sweeps two inputs at once over their slider ranges and records margin per
+// mile at every grid point. The zero-margin contour is traced with marching
+// squares over the grid points, interpolating linearly along each cell edge.
+// =============================================================================
+
+export interface HeatmapAxis {
+  field: NumericInput
+  min: number
+  max: number
+}
+
+export interface HeatmapCell {
+  x: number
+  y: number
+  marginPerMile: number
+  totalCostPerMile: number
+}
+
+export interface HeatmapGrid {
+  xs: number[]
+  ys: number[]
+  // cells[row][column]: row follows ys, column follows xs
+  cells: HeatmapCell[][]
+}
+
+// A contour segment in grid-index space (fractional column, fractional row)
+export type ContourSegment = [[number, number], [number, number]]
+
+// Inputs on the two axes; each is swept over its slider range
+export interface HeatmapInputs {
+  xField: NumericInput
+  yField: NumericInput
+}
+
+export const DEFAULT_HEATMAP_INPUTS: HeatmapInputs = {
+  xField: 'utilizationPercent',
+  yField: 'deadheadPercent',
+}
+
+export const HEATMAP_STEPS = 30
+
+// Zero-mileage points have -Infinity margin; clamp so edge interpolation stays finite
+const CONTOUR_CLAMP = 1e6
+
+function axisValues(axis: HeatmapAxis, steps: number): number[] {
+  return Array.from({ length: steps }, (_, i) => axis.min + (axis.max - axis.min) * i / (steps - 1))
+}
+
+export function marginGrid(params: SimulationInputs, xAxis: HeatmapAxis, yAxis: HeatmapAxis, steps = HEATMAP_STEPS): HeatmapGrid {
+  const xs = axisValues(xAxis, steps)
+  const ys = axisValues(yAxis, steps)
+  const cells = ys.map(y => xs.map(x => {
+    const metrics = calculateMetrics({ ...params, [xAxis.field]: x, [yAxis.field]: y })
+    return { x, y, marginPerMile: metrics.marginPerMile, totalCostPerMile: metrics.totalCostPerMile }
+  }))
+  return { xs, ys, cells }
+}
+
+export function zeroContour(grid: HeatmapGrid): ContourSegment[] {
+  const value = (row: number, column: number) =>
+    Math.min(Math.max(grid.cells[row][column].marginPerMile, -CONTOUR_CLAMP), CONTOUR_CLAMP)
+  // Where along the edge from a to b the value crosses zero (0..1)
+  const crossing = (a: number, b: number) => a === b ? 0.5 : a / (a - b)
+
+  const segments: ContourSegment[] = []
+  for (let row = 0; row < grid.ys.length - 1; row++) {
+    for (let column = 0; column < grid.xs.length - 1; column++) {
+      const bottomLeft = value(row, column)
+      const bottomRight = value(row, column + 1)
+      const topRight = value(row + 1, column + 1)
+      const topLeft = value(row + 1, column)
+
+      // Crossing points on the four edges, walking round the square
+      const points: [number, number][] = []
+      if ((bottomLeft > 0) !== (bottomRight > 0)) points.push([column + crossing(bottomLeft, bottomRight), row])
+      if ((bottomRight > 0) !== (topRight > 0)) points.push([column + 1, row + crossing(bottomRight, topRight)])
+      if ((topRight > 0) !== (topLeft > 0)) points.push([column + 1 - crossing(topRight, topLeft), row + 1])
+      if ((topLeft > 0) !== (bottomLeft > 0)) points.push([column, row + 1 - crossing(topLeft, bottomLeft)])
+
+      // Two crossings is a single segment; four is a saddle, paired in walking order
+      for (let i = 0; i + 1 < points.length; i += 2) {
+        segments.push([points[i], points[i + 1]])
+      }
+    }
+  }
+  return segments
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_INVESTMENT_INPUTS, InvestmentInputs, calculateInvestment, irr, npv } from './investment'
+import { DAYS_PER_MONTH, calculateMetrics } from './economics'
+import { PRESETS } from './presets'
+
+const MATURE_CITY = PRESETS['Mature city']
+
+const operatingPerMonth = () => {
+  const m = calculateMetrics(MATURE_CITY)
+  return (m.paidMilesPerDay * (m.revenuePerPaidMile - m.variableCostPerPaidMile) - m.teleopsAndOpsPerDay) * DAYS_PER_MONTH
+}
+
+const invest = (patch: Partial<InvestmentInputs>) => calculateInvestment(MATURE_CITY, { ...DEFAULT_INVESTMENT_INPUTS, ...patch })
+
+describe('npv and irr', () => {
+  it('discounts each month once', () => {
+    expect(npv([-100, 110], 0.1)).toBeCloseTo(0, 9)
+    expect(npv([-100, 50, 50], 0)).toBe(0)
+  })
+
+  it('annualises the monthly rate that zeroes NPV', () => {
+    expect(irr([-100, 110])).toBeCloseTo((Math.pow(1.1, 12) - 1) * 100, 4)
+    expect(irr([-1000, ...Array(12).fill(100)])).toBeCloseTo((Math.pow(1 + 0.029229, 12) - 1) * 100, 1)
+  })
+
+  it('has no IRR when the flows never change sign', () => {
+    expect(irr([100, 100])).toBeNull()
+    expect(irr([-100, -100])).toBeNull()
+  })
+})
+
+describe('cash purchase', () => {
+  const result = invest({ financing: 'cash', capexLeadMonths: 3, residualValuePercent: 10 })
+  const flows = result.cashFlows
+
+  it('pays for the vehicle up front and earns after the lead time until the end of its life', () => {
+    expect(flows[0].capex).toBe(-MATURE_CITY.vehicleCost)
+    expect(flows.slice(1, 4).every(point => point.operating === 0)).toBe(true)
+    expect(flows[4].operating).toBeCloseTo(operatingPerMonth(), 6)
+    // 5-year life after a 3-month lead, residual on the last month
+    expect(flows).toHaveLength(64)
+    expect(flows[63].residual).toBe(5000)
+    expect(flows.every(point => point.financing === 0)).toBe(true)
+  })
+
+  it('pays back in the first month cumulative cash is back above zero', () => {
+    const payback = result.paybackMonths!
+    expect(flows[payback - 1].cumulative).toBeLessThan(0)
+    expect(flows[payback].cumulative).toBeGreaterThanOrEqual(0)
+  })
+
+  it('reports NPV and IRR of the net flows', () => {
+    const net = flows.map(point => point.net)
+    expect(result.npvPerVehicle).toBeCloseTo(npv(net, Math.pow(1.1, 1 / 12) - 1), 6)
+    expect(result.fleetNpv).toBeCloseTo(result.npvPerVehicle * MATURE_CITY.fleetSize, 0)
+    expect(npv(net, Math.pow(1 + result.irrPercent! / 100, 1 / 12) - 1)).toBeCloseTo(0, 3)
+  })
+})
+
+describe('loan vs lease', () => {
+  it('starts loan payments at purchase and keeps the residual', () => {
+    const flows = invest({ financing: 'loan', capexLeadMonths: 3, financingTermMonths: 36 }).cashFlows
+    expect(flows[0].capex).toBe(0)
+    expect(flows[1].financing).toBeLessThan(0)
+    expect(flows[36].financing).toBe(flows[1].financing)
+    expect(flows[37].financing).toBe(0)
+    expect(flows[63].residual).toBe(5000)
+  })
+
+  it('keeps paying a loan longer than the service life', () => {
+    const flows = invest({ financing: 'loan', capexLeadMonths: 0, financingTermMonths: 84 }).cashFlows
+    expect(flows).toHaveLength(85)
+    expect(flows[84].operating).toBe(0)
+    expect(flows[84].financing).toBeLessThan(0)
+  })
+
+  it('runs the lease and its payments over the same months, with no residual', () => {
+    const flows = invest({ financing: 'lease', capexLeadMonths: 3, financingTermMonths: 24 }).cashFlows
+    const earning = flows.filter(point => point.operating !== 0).map(point => point.month)
+    const paying = flows.filter(point => point.financing !== 0).map(point => point.month)
+    expect(earning).toEqual(Array.from({ length: 24 }, (_, i) => i + 4))
+    expect(paying).toEqual(earning)
+    expect(flows.every(point => point.residual === 0 && point.capex === 0)).toBe(true)
+  })
+
+  it('prices the lease below the loan by the discounted residual', () => {
+    const loan = invest({ financing: 'loan', financingTermMonths: 60 }).cashFlows[1].financing
+    const lease = invest({ financing: 'lease', financingTermMonths: 60 }).cashFlows[4].financing
+    expect(lease).toBeGreaterThan(loan)
+  })
+
+  it('pays back immediately when financed cash flow never goes negative', () => {
+    const result = invest({ financing: 'loan', capexLeadMonths: 0 })
+    expect(result.cashFlows.every(point => point.cumulative >= 0)).toBe(true)
+    expect(result.paybackMonths).toBe(0)
+  })
+})
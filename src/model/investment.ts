@@ -0,0 +1,184 @@
+import { SimulationInputs, calculateMetrics, DAYS_PER_MONTH } from './economics'
+
+// =============================================================================
+// Investment Returns — per-vehicle cash flows, NPV, IRR, payback
+// =============================================================================
+// Unlike calculateMetrics (which spreads vehicle cost straight-line with no
+// salvage and no cost of capital), this works month by month in cash terms:
+//
+//   month 0                  vehicle purchased (or financed)
+//   months 1..lead           capex lead time: vehicle bought, not yet earning
+//   service months           operating cash = (paidMiles * (revenuePerPaidMile - variable) - teleops) * daysPerMonth
+//   end of service           + residual value (cash and loan only; a leased vehicle goes back)
+//
+// Financing:
+//   cash   full vehicle cost up front
+//   loan   100% financed, amortised over the term at the loan rate; owner keeps the residual
+//   lease  payment = (cost - PV(residual)) amortised over the term; the lease starts when the
+//          vehicle enters service and the vehicle goes back when it ends
+// =============================================================================
+
+export type FinancingType = 'cash' | 'loan' | 'lease'
+
+export interface InvestmentInputs {
+  discountRatePercent: number
+  residualValuePercent: number
+  financing: FinancingType
+  financingRatePercent: number
+  financingTermMonths: number
+  capexLeadMonths: number
+}
+
+export interface CashFlowPoint {
+  month: number
+  operating: number
+  capex: number
+  financing: number
+  residual: number
+  net: number
+  cumulative: number
+}
+
+export interface InvestmentResult {
+  cashFlows: CashFlowPoint[]
+  npvPerVehicle: number
+  fleetNpv: number
+  // Annualised; null when cash flows never change sign
+  irrPercent: number | null
+  // Months from purchase until cumulative cash is back to >= 0 (0 when it never
+  // goes negative); null if never
+  paybackMonths: number | null
+}
+
+export const FINANCING_TYPES: Record<FinancingType, string> = {
+  cash: 'Cash purchase',
+  loan: 'Loan',
+  lease: 'Lease',
+}
+
+export const DEFAULT_INVESTMENT_INPUTS: InvestmentInputs = {
+  discountRatePercent: 10,
+  residualValuePercent: 10,
+  financing: 'cash',
+  financingRatePercent: 7,
+  financingTermMonths: 60,
+  capexLeadMonths: 3,
+}
+
+// Bounds for the typed assumptions; outside them the annuity and IRR maths break down
+export const INVESTMENT_RANGES: Record<Exclude<keyof InvestmentInputs, 'financing'>, { min: number; max: number }> = {
+  discountRatePercent: { min: 0, max: 50 },
+  residualValuePercent: { min: 0, max: 100 },
+  financingRatePercent: { min: 0, max: 30 },
+  financingTermMonths: { min: 1, max: 120 },
+  capexLeadMonths: { min: 0, max: 24 },
+}
+
+const annualToMonthlyRate = (annualPercent: number) => Math.pow(1 + annualPercent / 100, 1 / 12) - 1
+
+// Level payment that amortises `principal` over `months` at monthly rate `rate`
+function amortizedPayment(principal: number, rate: number, months: number): number {
+  if (months <= 0) return principal
+  if (rate === 0) return principal / months
+  return principal * rate / (1 - Math.pow(1 + rate, -months))
+}
+
+export function npv(cashFlows: number[], monthlyRate: number): number {
+  return cashFlows.reduce((sum, flow, month) => sum + flow / Math.pow(1 + monthlyRate, month), 0)
+}
+
+// Monthly IRR by bisection, returned annualised. Bisection rather than Newton
+// because financed cash flows are often nearly flat and Newton wanders off.
+export function irr(cashFlows: number[]): number | null {
+  const hasNegative = cashFlows.some(flow => flow < 0)
+  const hasPositive = cashFlows.some(flow => flow > 0)
+  if (!hasNegative || !hasPositive) return null
+
+  let low = -0.9
+  let high = 10
+  let npvLow = npv(cashFlows, low)
+  const npvHigh = npv(cashFlows, high)
+  if (Math.sign(npvLow) === Math.sign(npvHigh)) return null
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const npvMid = npv(cashFlows, mid)
+    if (Math.abs(npvMid) < 1e-7) {
+      low = high = mid
+      break
+    }
+    if (Math.sign(npvMid) === Math.sign(npvLow)) {
+      low = mid
+      npvLow = npvMid
+    } else {
+      high = mid
+    }
+  }
+
+  const monthly = (low + high) / 2
+  return (Math.pow(1 + monthly, 12) - 1) * 100
+}
+
+export function calculateInvestment(params: SimulationInputs, investment: InvestmentInputs): InvestmentResult {
+  const metrics = calculateMetrics(params)
+  // Service life from the depreciation method (odometer can retire a vehicle early)
+  const lifetimeMonths = Math.max(1, Math.round(metrics.vehicleLifetimeDays / DAYS_PER_MONTH))
+  const leadMonths = Math.max(0, Math.round(investment.capexLeadMonths))
+  const termMonths = Math.max(1, Math.round(investment.financingTermMonths))
+  const financingRate = annualToMonthlyRate(investment.financingRatePercent)
+  const residualValue = params.vehicleCost * investment.residualValuePercent / 100
+
+  const serviceMonths = investment.financing === 'lease' ? termMonths : lifetimeMonths
+  const firstMonth = leadMonths + 1
+  const lastMonth = leadMonths + serviceMonths
+  // Loan payments start at purchase; lease payments cover the service months
+  const firstPayment = investment.financing === 'lease' ? firstMonth : 1
+  const lastPayment = firstPayment + termMonths - 1
+  // A loan longer than the vehicle's service life keeps costing after it's sold
+  const horizon = investment.financing === 'loan' ? Math.max(lastMonth, termMonths) : lastMonth
+
+  const operatingPerMonth =
+    (metrics.paidMilesPerDay * (metrics.revenuePerPaidMile - metrics.variableCostPerPaidMile) - metrics.teleopsAndOpsPerDay) * DAYS_PER_MONTH
+
+  let payment = 0
+  if (investment.financing === 'loan') {
+    payment = amortizedPayment(params.vehicleCost, financingRate, termMonths)
+  } else if (investment.financing === 'lease') {
+    const residualPv = residualValue / Math.pow(1 + financingRate, termMonths)
+    payment = amortizedPayment(params.vehicleCost - residualPv, financingRate, termMonths)
+  }
+
+  const cashFlows: CashFlowPoint[] = []
+  let cumulative = 0
+  let paybackMonths: number | null = null
+  let everNegative = false
+
+  for (let month = 0; month <= horizon; month++) {
+    const operating = month >= firstMonth && month <= lastMonth ? operatingPerMonth : 0
+    const capex = month === 0 && investment.financing === 'cash' ? -params.vehicleCost : 0
+    const financing = investment.financing !== 'cash' && month >= firstPayment && month <= lastPayment ? -payment : 0
+    const residual = month === lastMonth && investment.financing !== 'lease' ? residualValue : 0
+    const net = operating + capex + financing + residual
+
+    const wasNegative = cumulative < 0
+    cumulative += net
+    if (cumulative < 0) everNegative = true
+    if (paybackMonths === null && wasNegative && cumulative >= 0) {
+      paybackMonths = month
+    }
+
+    cashFlows.push({ month, operating, capex, financing, residual, net, cumulative })
+  }
+
+  const netFlows = cashFlows.map(point => point.net)
+  const npvPerVehicle = npv(netFlows, annualToMonthlyRate(investment.discountRatePercent))
+
+  return {
+    cashFlows,
+    npvPerVehicle,
+    fleetNpv: npvPerVehicle * params.fleetSize,
+    irrPercent: irr(netFlows),
+    // Financed from day one and earning more than the payments: paid back from the start
+    paybackMonths: everNegative ? paybackMonths : 0,
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_LEVERS, OptimizerInputs, defaultLever, defaultOptimizerInputs, meetsTarget, optimize } from './optimizer'
+import { SimulationInputs } from './economics'
+import { PRESETS } from './presets'
+
+const SCALING_CITY = PRESETS['Scaling city']
+
+describe('defaultOptimizerInputs', () => {
+  it('offers the default levers within ±25% of their slider range', () => {
+    const { levers } = defaultOptimizerInputs(SCALING_CITY)
+    expect(Object.keys(levers)).toEqual(DEFAULT_LEVERS)
+    // Utilization 40 on a 10–90 slider
+    expect(levers.utilizationPercent).toEqual({ min: 20, max: 60, weight: 1 })
+  })
+
+  it('leaves out levers the current modes ignore', () => {
+    const itemized: SimulationInputs = { ...SCALING_CITY, variableCostMode: 'itemized' }
+    expect(Object.keys(defaultOptimizerInputs(itemized).levers)).not.toContain('variableCostPerMile')
+  })
+})
+
+describe('optimize', () => {
+  const optimizer: OptimizerInputs = { ...defaultOptimizerInputs(SCALING_CITY), targetValue: 0 }
+
+  it('returns plans that meet the target, cheapest first', () => {
+    const plans = optimize(SCALING_CITY, optimizer)
+    expect(plans.length).toBeGreaterThan(0)
+    for (const plan of plans) {
+      expect(plan.after.marginPerMile).toBeGreaterThanOrEqual(-1e-9)
+      for (const change of plan.changes) {
+        const lever = optimizer.levers[change.field]!
+        expect(change.to).toBeGreaterThanOrEqual(lever.min)
+        expect(change.to).toBeLessThanOrEqual(lever.max)
+      }
+    }
+    const efforts = plans.map(plan => plan.effort)
+    expect(efforts).toEqual([...efforts].sort((a, b) => a - b))
+  })
+
+  it('returns nothing when the target is already met', () => {
+    const met = { ...optimizer, targetValue: -5 }
+    expect(meetsTarget(SCALING_CITY, met)).toBe(true)
+    expect(optimize(SCALING_CITY, met)).toEqual([])
+  })
+
+  it('never moves a lever the current modes ignore', () => {
+    const itemized: SimulationInputs = { ...SCALING_CITY, variableCostMode: 'itemized' }
+    const withFlatCost = { ...optimizer, levers: { variableCostPerMile: defaultLever('variableCostPerMile', 0.6) } }
+    expect(optimize(itemized, withFlatCost)).toEqual([])
+  })
+})
@@ -0,0 +1,213 @@
+import { SimulationInputs, SimulationMetrics, NumericInput, calculateMetrics } from './economics'
+import { SLIDER_RANGES, applicableParameters } from './parameters'
+import { goalSeek } from './goalSeek'
+
+// =============================================================================
+// Multi-lever Optimizer
+// =============================================================================
+// Finds low-effort combinations of input changes that hit a target margin or
+// cost per mile. Only enabled levers move, each within its own bounds.
+//
+//   effort  = Σ weight * |Δinput| / sliderRangeWidth * 100
+//             (moving a weight-1 lever across its whole slider range = 100)
+//
+// Plans come from two searches, merged and ranked by effort:
+//   single lever  goal seek on each lever alone, within its bounds
+//   greedy path   repeatedly take the small step with the best target gain
+//                 per unit of effort, until the target is met; re-run without
+//                 each lever it used to get alternatives
+// =============================================================================
+
+export type OptimizerTarget = 'marginPerMile' | 'totalCostPerMile'
+
+export interface LeverSetting {
+  min: number
+  max: number
+  // Relative effort of moving this lever; higher = more reluctant
+  weight: number
+}
+
+export interface OptimizerInputs {
+  target: OptimizerTarget
+  targetValue: number
+  levers: Partial<Record<NumericInput, LeverSetting>>
+}
+
+export interface PlanChange {
+  field: NumericInput
+  from: number
+  to: number
+}
+
+export interface OptimizerPlan {
+  changes: PlanChange[]
+  effort: number
+  inputs: SimulationInputs
+  before: SimulationMetrics
+  after: SimulationMetrics
+}
+
+export const OPTIMIZER_TARGETS: Record<OptimizerTarget, string> = {
+  marginPerMile: 'Margin / mile ≥',
+  totalCostPerMile: 'Cost / mile ≤',
+}
+
+export const DEFAULT_LEVERS: NumericInput[] = [
+  'utilizationPercent',
+  'deadheadPercent',
+  'vehiclesPerOperator',
+  'vehicleCost',
+  'variableCostPerMile',
+  'revenuePerMile',
+]
+
+const MAX_PLANS = 5
+
+// Greedy step as a fraction of each lever's bounds
+const STEP_FRACTION = 0.01
+const MAX_GREEDY_STEPS = 2000
+const REFINE_ITERATIONS = 50
+// Changes smaller than this share of the slider range aren't worth listing
+const MIN_CHANGE_FRACTION = 1e-6
+
+// Lever bounds default to ±25% of the slider range around the current value
+export function defaultLever(field: NumericInput, value: number): LeverSetting {
+  const range = SLIDER_RANGES[field]
+  const halfWidth = (range.max - range.min) * 0.25
+  return {
+    min: Math.max(range.min, value - halfWidth),
+    max: Math.min(range.max, value + halfWidth),
+    weight: 1,
+  }
+}
+
+// Default levers the current modes use, e.g. no flat variable cost when itemized
+export function defaultOptimizerInputs(params: SimulationInputs): OptimizerInputs {
+  const applicable = applicableParameters(params)
+  const levers: OptimizerInputs['levers'] = {}
+  for (const field of DEFAULT_LEVERS.filter(field => applicable.includes(field))) {
+    levers[field] = defaultLever(field, params[field])
+  }
+  return { target: 'marginPerMile', targetValue: 0.3, levers }
+}
+
+const rangeWidth = (field: NumericInput) => SLIDER_RANGES[field].max - SLIDER_RANGES[field].min
+
+// >= 0 once the target is met
+function slack(metrics: SimulationMetrics, optimizer: OptimizerInputs): number {
+  return optimizer.target === 'marginPerMile'
+    ? metrics.marginPerMile - optimizer.targetValue
+    : optimizer.targetValue - metrics.totalCostPerMile
+}
+
+export function meetsTarget(params: SimulationInputs, optimizer: OptimizerInputs): boolean {
+  return slack(calculateMetrics(params), optimizer) >= 0
+}
+
+function effortOf(params: SimulationInputs, inputs: SimulationInputs, optimizer: OptimizerInputs): number {
+  let effort = 0
+  for (const [field, lever] of Object.entries(optimizer.levers) as [NumericInput, LeverSetting][]) {
+    effort += lever.weight * Math.abs(inputs[field] - params[field]) / rangeWidth(field) * 100
+  }
+  return effort
+}
+
+function toPlan(params: SimulationInputs, inputs: SimulationInputs, optimizer: OptimizerInputs, before: SimulationMetrics): OptimizerPlan {
+  const changes = (Object.keys(optimizer.levers) as NumericInput[])
+    .filter(field => Math.abs(inputs[field] - params[field]) > rangeWidth(field) * MIN_CHANGE_FRACTION)
+    .map(field => ({ field, from: params[field], to: inputs[field] }))
+  return { changes, effort: effortOf(params, inputs, optimizer), inputs, before, after: calculateMetrics(inputs) }
+}
+
+function singleLeverPlans(params: SimulationInputs, optimizer: OptimizerInputs): SimulationInputs[] {
+  const plans: SimulationInputs[] = []
+  for (const [field, lever] of Object.entries(optimizer.levers) as [NumericInput, LeverSetting][]) {
+    const result = goalSeek(params, { metric: optimizer.target, target: optimizer.targetValue, field }, lever)
+    if (result.solved) plans.push({ ...params, [field]: result.value })
+  }
+  return plans
+}
+
+function greedyPlan(params: SimulationInputs, optimizer: OptimizerInputs, fields: NumericInput[]): SimulationInputs | null {
+  let current = { ...params }
+  let currentSlack = slack(calculateMetrics(current), optimizer)
+
+  for (let step = 0; step < MAX_GREEDY_STEPS && currentSlack < 0; step++) {
+    let best: { inputs: SimulationInputs; slack: number; ratio: number; field: NumericInput } | null = null
+
+    for (const field of fields) {
+      const lever = optimizer.levers[field]
+      if (!lever) continue
+      const stepSize = (lever.max - lever.min) * STEP_FRACTION
+      for (const direction of [-1, 1]) {
+        const next = Math.min(Math.max(current[field] + direction * stepSize, lever.min), lever.max)
+        if (next === current[field]) continue
+        const candidate = { ...current, [field]: next }
+        const candidateSlack = slack(calculateMetrics(candidate), optimizer)
+        const gain = candidateSlack - currentSlack
+        if (!isFinite(gain) || gain <= 0) continue
+        const ratio = gain / (lever.weight * Math.abs(next - current[field]) / rangeWidth(field))
+        if (!best || ratio > best.ratio) best = { inputs: candidate, slack: candidateSlack, ratio, field }
+      }
+    }
+
+    if (!best) return null
+
+    if (best.slack >= 0) {
+      // Overshot within the last step: bisect back to land on the target
+      let low = current[best.field]
+      let high = best.inputs[best.field]
+      for (let i = 0; i < REFINE_ITERATIONS; i++) {
+        const mid = (low + high) / 2
+        if (slack(calculateMetrics({ ...current, [best.field]: mid }), optimizer) >= 0) high = mid
+        else low = mid
+      }
+      return { ...current, [best.field]: high }
+    }
+
+    current = best.inputs
+    currentSlack = best.slack
+  }
+
+  return currentSlack >= 0 ? current : null
+}
+
+export function optimize(params: SimulationInputs, requested: OptimizerInputs): OptimizerPlan[] {
+  const before = calculateMetrics(params)
+  if (slack(before, requested) >= 0) return []
+
+  // Levers the current modes ignore can't move the target; drop them
+  const applicable = applicableParameters(params)
+  const optimizer: OptimizerInputs = {
+    ...requested,
+    levers: Object.fromEntries(
+      Object.entries(requested.levers).filter(([field]) => applicable.includes(field as NumericInput))
+    ),
+  }
+
+  const fields = (Object.keys(optimizer.levers) as NumericInput[])
+  const candidates = singleLeverPlans(params, optimizer)
+
+  const main = greedyPlan(params, optimizer, fields)
+  if (main) {
+    candidates.push(main)
+    for (const excluded of fields.filter(field => main[field] !== params[field])) {
+      const alternative = greedyPlan(params, optimizer, fields.filter(field => field !== excluded))
+      if (alternative) candidates.push(alternative)
+    }
+  }
+
+  // Same set of levers moved to nearly the same place counts as one plan
+  const plans: OptimizerPlan[] = []
+  for (const plan of candidates.map(inputs => toPlan(params, inputs, optimizer, before)).sort((a, b) => a.effort - b.effort)) {
+    const duplicate = plans.some(existing =>
+      existing.changes.length === plan.changes.length &&
+      existing.changes.every(change => {
+        const match = plan.changes.find(other => other.field === change.field)
+        return match !== undefined && Math.abs(match.to - change.to) <= rangeWidth(change.field) * 0.01
+      })
+    )
+    if (!duplicate) plans.push(plan)
+  }
+  return plans.slice(0, MAX_PLANS)
+}
@@ -0,0 +1,268 @@
+import type { NumericInput, SimulationInputs } from './economics'
+
+// =============================================================================
+// Parameter Registry
+// =============================================================================
+// One entry per numeric model input: how it is labelled, bounded, stepped,
+// formatted and grouped. The slider panel, NUMERIC_INPUTS labels, input
+// validation (share links, files, /api/chat), chart sweeps and the batch
+// runner all read from here, so a new input is added in one place (plus the
+// formula that uses it in economics.ts).
+//
+//   measure   what kind of quantity it is, for unit and currency conversion
+//             (values here are always US dollars and miles; see utils/units.ts)
+//   format    display formatter, given the value already converted to the
+//             user's units and the formatting helpers for those units
+//   scale     'log' for inputs spanning orders of magnitude (fleet size,
+//             vehicles per operator): log-scale slider, swept geometrically and
+//             charted on a log axis
+//   appliesTo the modes under which the input affects the numbers; inputs
+//             that don't apply are hidden in the panel and not required by the API
+// =============================================================================
+
+export type ParameterGroup = 'fleet' | 'demand' | 'cost' | 'variable' | 'pricing' | 'advanced'
+
+export type ParameterScale = 'linear' | 'log'
+
+export type Measure = 'plain' | 'money' | 'money-per-distance' | 'per-distance' | 'distance' | 'speed'
+
+// Locale- and unit-aware building blocks for `format`
+export interface UnitFormat {
+  money: (value: number, decimals?: number) => string
+  compactMoney: (value: number) => string
+  number: (value: number, maxDecimals?: number) => string
+  compactNumber: (value: number) => string
+  // 'mi' or 'km'
+  distance: string
+  // 'mph' or 'km/h'
+  speed: string
+}
+
+export interface ParameterSpec {
+  key: NumericInput
+  label: string
+  // Shown after the label in axis and select labels, e.g. "Vehicle cost ($)"; empty when the label says it
+  unit: string
+  group: ParameterGroup
+  min: number
+  max: number
+  step: number
+  default: number
+  measure: Measure
+  format: (value: number, f: UnitFormat) => string
+  scale: ParameterScale
+  help: string
+  appliesTo?: (inputs: SimulationInputs) => boolean
+}
+
+export const PARAMETER_GROUPS: Record<ParameterGroup, string> = {
+  fleet: 'Fleet',
+  demand: 'Demand & Utilization',
+  cost: 'Cost Structure (CapEx + OpEx)',
+  variable: 'Variable Cost',
+  pricing: 'Pricing',
+  advanced: 'Advanced assumptions',
+}
+
+const money = (value: number, f: UnitFormat) => f.money(value, 2)
+
+// In panel order
+export const PARAMETERS: Record<NumericInput, ParameterSpec> = {
+  fleetSize: {
+    key: 'fleetSize', label: 'Fleet size', unit: '', group: 'fleet',
+    min: 500, max: 6000000, step: 500, default: 2000, measure: 'plain', scale: 'log',
+    format: (v, f) => f.number(v, 0),
+    help: 'Vehicles in service. Scales fleet revenue and profit, not per-mile economics.',
+  },
+  utilizationPercent: {
+    key: 'utilizationPercent', label: 'Utilization', unit: '%', group: 'demand',
+    min: 10, max: 90, step: 1, default: 40, measure: 'plain', scale: 'linear',
+    format: (v, f) => `${f.number(v)}%`,
+    help: 'Share of daily mile capacity actually driven.',
+  },
+  deadheadPercent: {
+    key: 'deadheadPercent', label: 'Deadhead', unit: '%', group: 'demand',
+    min: 10, max: 70, step: 1, default: 44, measure: 'plain', scale: 'linear',
+    format: (v, f) => `${f.number(v)}%`,
+    help: 'Share of driven miles without a paying rider (repositioning, pickup, depot runs).',
+  },
+  opsHoursPerDay: {
+    key: 'opsHoursPerDay', label: 'Ops hours / day', unit: '', group: 'demand',
+    min: 4, max: 24, step: 1, default: 20, measure: 'plain', scale: 'linear',
+    format: (v, f) => `${f.number(v)}h`,
+    help: 'Hours per day the fleet is in service and remote operators are paid.',
+  },
+  avgSpeedMph: {
+    key: 'avgSpeedMph', label: 'Avg speed', unit: 'mph', group: 'demand',
+    min: 5, max: 60, step: 1, default: 18, measure: 'speed', scale: 'linear',
+    format: (v, f) => `${f.number(v, 0)} ${f.speed}`,
+    help: 'Average in-service speed. Sets daily miles under the ops-hours model and trip duration for per-minute fares.',
+    appliesTo: (inputs) => inputs.mileageModel === 'ops-hours' || inputs.pricingMode === 'trip',
+  },
+  vehicleCost: {
+    key: 'vehicleCost', label: 'Vehicle cost', unit: '$', group: 'cost',
+    min: 15000, max: 300000, step: 5000, default: 170000, measure: 'money', scale: 'linear',
+    format: (v, f) => f.compactMoney(v),
+    help: 'All-in purchase cost per vehicle, including the sensor and compute stack.',
+  },
+  vehicleLifetimeYears: {
+    key: 'vehicleLifetimeYears', label: 'Vehicle lifetime', unit: 'yrs', group: 'cost',
+    min: 3, max: 10, step: 1, default: 5, measure: 'plain', scale: 'linear',
+    format: (v, f) => `${f.number(v)} yrs`,
+    help: 'Years over which the vehicle is depreciated.',
+  },
+  vehicleLifetimeMiles: {
+    key: 'vehicleLifetimeMiles', label: 'Vehicle lifetime', unit: 'mi', group: 'cost',
+    min: 100000, max: 1000000, step: 10000, default: 400000, measure: 'distance', scale: 'linear',
+    format: (v, f) => `${f.number(v / 1000, 0)}k ${f.distance}`,
+    help: 'Odometer reading at which the vehicle retires, if that comes before its lifetime in years.',
+    appliesTo: (inputs) => inputs.depreciationMethod === 'odometer',
+  },
+  vehicleAgeYears: {
+    key: 'vehicleAgeYears', label: 'Vehicle age', unit: 'yrs', group: 'cost',
+    min: 0, max: 9, step: 1, default: 0, measure: 'plain', scale: 'linear',
+    format: (v, f) => `${f.number(v)} yrs`,
+    help: 'Years the vehicle has been in service. Declining balance charges that year of its schedule; 0 is the first year.',
+    appliesTo: (inputs) => inputs.depreciationMethod === 'declining-balance',
+  },
+  vehiclesPerOperator: {
+    key: 'vehiclesPerOperator', label: 'Vehicles / operator', unit: '', group: 'cost',
+    min: 2, max: 200, step: 1, default: 5, measure: 'plain', scale: 'log',
+    format: (v, f) => f.number(v),
+    help: 'Vehicles each remote operator supervises at once.',
+  },
+  variableCostPerMile: {
+    key: 'variableCostPerMile', label: 'Variable cost / mile', unit: '$', group: 'variable',
+    min: 0.05, max: 2, step: 0.01, default: 0.6, measure: 'money-per-distance', scale: 'linear',
+    format: money,
+    help: 'Energy, maintenance, tires, insurance and cleaning per paid mile.',
+    appliesTo: (inputs) => inputs.variableCostMode !== 'itemized',
+  },
+  kwhPerMile: {
+    key: 'kwhPerMile', label: 'Energy use', unit: 'kWh/mi', group: 'variable',
+    min: 0.1, max: 0.6, step: 0.01, default: 0.3, measure: 'per-distance', scale: 'linear',
+    format: (v, f) => `${f.number(v, 3)} kWh/${f.distance}`,
+    help: 'Electricity drawn per mile driven, including the sensor and compute load and charging losses.',
+    appliesTo: (inputs) => inputs.variableCostMode === 'itemized' && inputs.energySource !== 'fuel',
+  },
+  electricityPrice: {
+    key: 'electricityPrice', label: 'Electricity price', unit: '$/kWh', group: 'variable',
+    min: 0.05, max: 0.6, step: 0.01, default: 0.18, measure: 'money', scale: 'linear',
+    format: (v, f) => `${f.money(v, 2)}/kWh`,
+    help: 'Blended depot and public charging price.',
+    appliesTo: (inputs) => inputs.variableCostMode === 'itemized' && inputs.energySource !== 'fuel',
+  },
+  milesPerGallon: {
+    key: 'milesPerGallon', label: 'Fuel economy', unit: 'mpg', group: 'variable',
+    min: 10, max: 60, step: 1, default: 30, measure: 'distance', scale: 'linear',
+    format: (v, f) => `${f.number(v, 0)} ${f.distance === 'km' ? 'km/gal' : 'mpg'}`,
+    help: 'Miles driven per US gallon of fuel.',
+    appliesTo: (inputs) => inputs.variableCostMode === 'itemized' && inputs.energySource === 'fuel',
+  },
+  fuelPrice: {
+    key: 'fuelPrice', label: 'Fuel price', unit: '$/gal', group: 'variable',
+    min: 2, max: 8, step: 0.1, default: 3.8, measure: 'money', scale: 'linear',
+    format: (v, f) => `${f.money(v, 2)}/gal`,
+    help: 'Price per US gallon.',
+    appliesTo: (inputs) => inputs.variableCostMode === 'itemized' && inputs.energySource === 'fuel',
+  },
+  maintenancePerMile: {
+    key: 'maintenancePerMile', label: 'Maintenance / mile', unit: '$', group: 'variable',
+    min: 0, max: 0.5, step: 0.01, default: 0.08, measure: 'money-per-distance', scale: 'linear',
+    format: money,
+    help: 'Scheduled and unscheduled maintenance per mile driven, deadhead included.',
+    appliesTo: (inputs) => inputs.variableCostMode === 'itemized',
+  },
+  tiresPerMile: {
+    key: 'tiresPerMile', label: 'Tires / mile', unit: '$', group: 'variable',
+    min: 0, max: 0.2, step: 0.005, default: 0.02, measure: 'money-per-distance', scale: 'linear',
+    format: money,
+    help: 'Tire wear per mile driven, deadhead included.',
+    appliesTo: (inputs) => inputs.variableCostMode === 'itemized',
+  },
+  insurancePerMile: {
+    key: 'insurancePerMile', label: 'Insurance / mile', unit: '$', group: 'variable',
+    min: 0, max: 0.8, step: 0.01, default: 0.08, measure: 'money-per-distance', scale: 'linear',
+    format: money,
+    help: 'Per-mile insurance premium on miles driven, deadhead included.',
+    appliesTo: (inputs) => inputs.variableCostMode === 'itemized',
+  },
+  cleaningPerTrip: {
+    key: 'cleaningPerTrip', label: 'Cleaning / trip', unit: '$', group: 'variable',
+    min: 0, max: 10, step: 0.25, default: 0.75, measure: 'money', scale: 'linear',
+    format: money,
+    help: 'Cabin cleaning and inspection per paid trip; spread over the average trip length.',
+    appliesTo: (inputs) => inputs.variableCostMode === 'itemized',
+  },
+  calibrationPerMile: {
+    key: 'calibrationPerMile', label: 'Sensor calibration / mile', unit: '$', group: 'variable',
+    min: 0, max: 0.2, step: 0.005, default: 0.01, measure: 'money-per-distance', scale: 'linear',
+    format: money,
+    help: 'Reserve for sensor cleaning, recalibration and replacement per mile driven.',
+    appliesTo: (inputs) => inputs.variableCostMode === 'itemized',
+  },
+  revenuePerMile: {
+    key: 'revenuePerMile', label: 'Revenue / mile', unit: '$', group: 'pricing',
+    min: 1, max: 5, step: 0.1, default: 2.5, measure: 'money-per-distance', scale: 'linear',
+    format: money,
+    help: 'Fare per paid mile. Under trip pricing, the per-mile component of the fare.',
+  },
+  avgTripMiles: {
+    key: 'avgTripMiles', label: 'Avg trip', unit: 'mi', group: 'pricing',
+    min: 1, max: 30, step: 0.5, default: 5, measure: 'distance', scale: 'linear',
+    format: (v, f) => `${f.number(v, 1)} ${f.distance}`,
+    help: 'Average paid trip length. Sets the fare per mile under trip pricing and cleaning cost per mile under itemized variable cost.',
+    appliesTo: (inputs) => inputs.pricingMode === 'trip' || inputs.variableCostMode === 'itemized',
+  },
+  baseFare: {
+    key: 'baseFare', label: 'Base fare', unit: '$', group: 'pricing',
+    min: 0, max: 10, step: 0.25, default: 2.5, measure: 'money', scale: 'linear',
+    format: money,
+    help: 'Flat amount charged per trip.',
+    appliesTo: (inputs) => inputs.pricingMode === 'trip',
+  },
+  perMinuteRate: {
+    key: 'perMinuteRate', label: 'Per-minute rate', unit: '$', group: 'pricing',
+    min: 0, max: 1.5, step: 0.05, default: 0.3, measure: 'money', scale: 'linear',
+    format: money,
+    help: 'Charged per minute of trip time.',
+    appliesTo: (inputs) => inputs.pricingMode === 'trip',
+  },
+  bookingFee: {
+    key: 'bookingFee', label: 'Booking fee', unit: '$', group: 'pricing',
+    min: 0, max: 5, step: 0.25, default: 1.5, measure: 'money', scale: 'linear',
+    format: money,
+    help: 'Platform fee added to every trip.',
+    appliesTo: (inputs) => inputs.pricingMode === 'trip',
+  },
+  operatorCostPerHour: {
+    key: 'operatorCostPerHour', label: 'Operator cost / hour', unit: '$', group: 'advanced',
+    min: 15, max: 120, step: 1, default: 40, measure: 'money', scale: 'linear',
+    format: (v, f) => `${f.money(v, 0)}/h`,
+    help: 'Fully loaded hourly cost of a remote operator.',
+  },
+  maxMilesPerDay: {
+    key: 'maxMilesPerDay', label: 'Max miles / day', unit: '', group: 'advanced',
+    min: 100, max: 600, step: 10, default: 300, measure: 'distance', scale: 'linear',
+    format: (v, f) => `${f.number(v, 0)} ${f.distance}`,
+    help: 'Miles a vehicle can drive per day at 100% utilization under the fixed-cap model.',
+    appliesTo: (inputs) => inputs.mileageModel === 'fixed-cap',
+  },
+}
+
+export const PARAMETER_KEYS = Object.keys(PARAMETERS) as NumericInput[]
+
+export const parametersIn = (group: ParameterGroup): ParameterSpec[] =>
+  PARAMETER_KEYS.map(key => PARAMETERS[key]).filter(spec => spec.group === group)
+
+// Inputs that affect the numbers under the given modes
+export const applicableParameters = (inputs: SimulationInputs): NumericInput[] =>
+  PARAMETER_KEYS.filter(key => PARAMETERS[key].appliesTo?.(inputs) ?? true)
+
+export const PARAMETER_DEFAULTS = Object.fromEntries(
+  PARAMETER_KEYS.map(key => [key, PARAMETERS[key].default])
+) as Record<NumericInput, number>
+
+export const SLIDER_RANGES = Object.fromEntries(
+  PARAMETER_KEYS.map(key => [key, { min: PARAMETERS[key].min, max: PARAMETERS[key].max }])
+) as Record<NumericInput, { min: number; max: number }>
@@ -0,0 +1,61 @@
+import type { SimulationInputs } from './economics'
+import { PARAMETER_DEFAULTS } from './parameters'
+
+// =============================================================================
+// Preset Catalog — shared by the app and the batch runner
+// =============================================================================
+
+// Assumptions the presets share: the registry defaults plus the default modes.
+// A preset overrides any of them by setting the field.
+const BASE_ASSUMPTIONS: SimulationInputs = {
+  ...PARAMETER_DEFAULTS,
+  depreciationMethod: 'straight-line',
+  mileageModel: 'fixed-cap',
+  pricingMode: 'per-mile',
+  variableCostMode: 'flat',
+  energySource: 'electric',
+}
+
+export const PRESETS: Record<string, SimulationInputs> = {
+  'Early launch': {
+    ...BASE_ASSUMPTIONS,
+    fleetSize: 500,
+    vehiclesPerOperator: 3,
+    vehicleCost: 200000,
+    opsHoursPerDay: 16,
+    deadheadPercent: 60,
+    variableCostPerMile: 0.80,
+    revenuePerMile: 3.50,
+    utilizationPercent: 25,
+    vehicleLifetimeYears: 5,
+    vehicleLifetimeMiles: 300000,
+  },
+  'Scaling city': {
+    ...BASE_ASSUMPTIONS,
+    fleetSize: 2000,
+    vehiclesPerOperator: 5,
+    vehicleCost: 170000,
+    opsHoursPerDay: 20,
+    deadheadPercent: 44,
+    variableCostPerMile: 0.60,
+    revenuePerMile: 2.50,
+    utilizationPercent: 40,
+    vehicleLifetimeYears: 5,
+    vehicleLifetimeMiles: 400000,
+  },
+  'Mature city': {
+    ...BASE_ASSUMPTIONS,
+    fleetSize: 100000,
+    vehiclesPerOperator: 80,
+    vehicleCost: 50000,
+    opsHoursPerDay: 22,
+    deadheadPercent: 15,
+    variableCostPerMile: 0.15,
+    revenuePerMile: 2.20,
+    utilizationPercent: 80,
+    vehicleLifetimeYears: 5,
+    vehicleLifetimeMiles: 500000,
+  },
+}
+
+export const DEFAULT_INPUTS: SimulationInputs = PRESETS['Scaling city']
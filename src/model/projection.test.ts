@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { ProjectionInputs, RampedField, RampedValue, defaultProjectionInputs, rampValue, runProjection } from './projection'
+import { SimulationInputs } from './economics'
+import { PRESETS } from './presets'
+
+const MATURE_CITY = PRESETS['Mature city']
+
+const flat = (value: number): RampedValue => ({ start: value, end: value, curve: 'linear' })
+
+// Every ramp held at the base configuration
+const steady = (base: SimulationInputs, months: number): ProjectionInputs => ({
+  months,
+  ramps: Object.fromEntries(
+    (['fleetSize', 'utilizationPercent', 'deadheadPercent', 'vehicleCost', 'vehiclesPerOperator'] as RampedField[])
+      .map(field => [field, flat(base[field])])
+  ) as Record<RampedField, RampedValue>,
+})
+
+const purchaseMonths = (base: SimulationInputs, months: number) =>
+  runProjection(base, steady(base, months)).points.filter(point => point.capex > 0).map(point => point.month)
+
+describe('rampValue', () => {
+  it('hits both ends on every curve', () => {
+    for (const curve of ['linear', 's-curve', 'learning'] as const) {
+      expect(rampValue({ start: 100, end: 25, curve }, 0)).toBeCloseTo(100, 9)
+      expect(rampValue({ start: 100, end: 25, curve }, 1)).toBeCloseTo(25, 9)
+    }
+  })
+
+  it('halves geometrically on the learning curve and eases on the s-curve', () => {
+    expect(rampValue({ start: 100, end: 25, curve: 'learning' }, 0.5)).toBeCloseTo(50, 9)
+    expect(rampValue({ start: 0, end: 100, curve: 's-curve' }, 0.25)).toBeCloseTo(15.625, 9)
+  })
+})
+
+describe('runProjection', () => {
+  it('buys the fleet in month 1 and replaces it after the vehicle lifetime', () => {
+    expect(purchaseMonths(MATURE_CITY, 72)).toEqual([1, 61])
+  })
+
+  it('retires vehicles at the odometer limit when it comes first', () => {
+    // 150k miles at 240 miles/day lasts 625 days, about 21 months
+    const odometer: SimulationInputs = { ...MATURE_CITY, depreciationMethod: 'odometer', vehicleLifetimeMiles: 150000 }
+    expect(purchaseMonths(odometer, 72)).toEqual([1, 22, 43, 64])
+  })
+
+  it('tracks cumulative cash, its trough and the month it turns positive', () => {
+    const result = runProjection(MATURE_CITY, steady(MATURE_CITY, 24))
+    const { points } = result
+    expect(points[0].capex).toBe(MATURE_CITY.fleetSize * MATURE_CITY.vehicleCost)
+    expect(result.troughCash).toBe(points[0].cumulativeCash)
+    const month = result.cashBreakevenMonth!
+    expect(points[month - 2].cumulativeCash).toBeLessThan(0)
+    expect(points[month - 1].cumulativeCash).toBeGreaterThanOrEqual(0)
+    expect(result.firstPositiveMarginMonth).toBe(1)
+  })
+
+  it('breaks even in month 1 when cumulative cash never goes negative', () => {
+    const noFleet = steady(MATURE_CITY, 12)
+    const result = runProjection(MATURE_CITY, { ...noFleet, ramps: { ...noFleet.ramps, fleetSize: flat(0) } })
+    expect(result.troughCash).toBe(0)
+    expect(result.cashBreakevenMonth).toBe(1)
+  })
+
+  it('ramps from the current configuration to the target', () => {
+    const target = { ...MATURE_CITY, fleetSize: 40000 }
+    const { points } = runProjection(MATURE_CITY, defaultProjectionInputs(MATURE_CITY, target, 2))
+    expect(points).toHaveLength(24)
+    expect(points[0].fleetSize).toBe(MATURE_CITY.fleetSize)
+    expect(points[23].fleetSize).toBe(40000)
+  })
+})
@@ -0,0 +1,170 @@
+import { SimulationInputs, calculateMetrics, DAYS_PER_MONTH } from './economics'
+
+// =============================================================================
+// Multi-year Ramp Projection
+// =============================================================================
+// Walks month by month from a starting to an ending configuration. Each month
+// is a steady-state snapshot from calculateMetrics with the ramped inputs
+// swapped in; cash is tracked separately so vehicle purchases hit when they
+// happen instead of being spread over the vehicle lifetime.
+//
+//   operatingCashFlow = (fleetContribution - teleops * fleetSize) * daysPerMonth
+//   capex             = (new vehicles + retiring vehicles replaced) * vehicleCost that month
+//   netCashFlow       = operatingCashFlow - capex
+//
+// Each month's purchases retire after the engine's vehicleLifetimeDays in the month
+// they were bought, so the odometer method retires hard-driven vehicles early.
+// =============================================================================
+
+export type RampCurve = 'linear' | 's-curve' | 'learning'
+
+export interface RampedValue {
+  start: number
+  end: number
+  curve: RampCurve
+}
+
+export type RampedField = 'fleetSize' | 'utilizationPercent' | 'deadheadPercent' | 'vehicleCost' | 'vehiclesPerOperator'
+
+export interface ProjectionInputs {
+  months: number
+  ramps: Record<RampedField, RampedValue>
+}
+
+export interface ProjectionPoint {
+  month: number
+  fleetSize: number
+  utilizationPercent: number
+  deadheadPercent: number
+  vehicleCost: number
+  vehiclesPerOperator: number
+  totalCostPerMile: number
+  marginPerMile: number
+  operatingCashFlow: number
+  capex: number
+  netCashFlow: number
+  cumulativeCash: number
+}
+
+export interface ProjectionResult {
+  points: ProjectionPoint[]
+  // First month with margin per mile > 0 (null if never within the horizon)
+  firstPositiveMarginMonth: number | null
+  // First month cumulative cash is back to >= 0 (month 1 when it never goes
+  // negative; null if never within the horizon)
+  cashBreakevenMonth: number | null
+  // Deepest cumulative cash position (peak funding need)
+  troughCash: number
+}
+
+export const RAMP_CURVES: Record<RampCurve, string> = {
+  'linear': 'Linear',
+  's-curve': 'S-curve',
+  'learning': 'Learning curve',
+}
+
+// Interpolate between start and end at progress t in [0, 1].
+// 'learning' moves by a constant percentage each month (geometric), which is
+// how hardware cost declines are usually quoted.
+export function rampValue(ramp: RampedValue, t: number): number {
+  const progress = Math.min(Math.max(t, 0), 1)
+  switch (ramp.curve) {
+    case 'linear':
+      return ramp.start + (ramp.end - ramp.start) * progress
+    case 's-curve': {
+      // Smoothstep: slow start, fast middle, slow finish
+      const eased = progress * progress * (3 - 2 * progress)
+      return ramp.start + (ramp.end - ramp.start) * eased
+    }
+    case 'learning':
+      if (ramp.start <= 0 || ramp.end <= 0) {
+        return ramp.start + (ramp.end - ramp.start) * progress
+      }
+      return ramp.start * Math.pow(ramp.end / ramp.start, progress)
+  }
+}
+
+export function runProjection(base: SimulationInputs, projection: ProjectionInputs): ProjectionResult {
+  const months = Math.max(1, Math.round(projection.months))
+  // Vehicles due for replacement, by month index
+  const retiringByMonth: number[] = []
+
+  const points: ProjectionPoint[] = []
+  let previousFleet = 0
+  let cumulativeCash = 0
+  let firstPositiveMarginMonth: number | null = null
+  let cashBreakevenMonth: number | null = null
+  let troughCash = 0
+
+  for (let i = 0; i < months; i++) {
+    const t = months === 1 ? 1 : i / (months - 1)
+    const { ramps } = projection
+    const inputs: SimulationInputs = {
+      ...base,
+      fleetSize: Math.round(rampValue(ramps.fleetSize, t)),
+      utilizationPercent: rampValue(ramps.utilizationPercent, t),
+      deadheadPercent: rampValue(ramps.deadheadPercent, t),
+      vehicleCost: rampValue(ramps.vehicleCost, t),
+      vehiclesPerOperator: rampValue(ramps.vehiclesPerOperator, t),
+    }
+    const metrics = calculateMetrics(inputs)
+
+    // Vehicles bought this month: growth plus replacement of the cohort reaching end of life
+    const newVehicles = Math.max(inputs.fleetSize - previousFleet, 0)
+    const retiringVehicles = retiringByMonth[i] ?? 0
+    const purchased = newVehicles + retiringVehicles
+    const lifetimeMonths = Math.max(1, Math.round(metrics.vehicleLifetimeDays / DAYS_PER_MONTH))
+    retiringByMonth[i + lifetimeMonths] = (retiringByMonth[i + lifetimeMonths] ?? 0) + purchased
+    previousFleet = Math.max(previousFleet, inputs.fleetSize)
+
+    const operatingCashFlow =
+      (metrics.fleetContributionPerDay - metrics.teleopsAndOpsPerDay * inputs.fleetSize) * DAYS_PER_MONTH
+    const capex = purchased * inputs.vehicleCost
+    const netCashFlow = operatingCashFlow - capex
+    const wasNegative = cumulativeCash < 0
+    cumulativeCash += netCashFlow
+    troughCash = Math.min(troughCash, cumulativeCash)
+
+    const month = i + 1
+    if (firstPositiveMarginMonth === null && metrics.marginPerMile > 0) {
+      firstPositiveMarginMonth = month
+    }
+    if (cashBreakevenMonth === null && wasNegative && cumulativeCash >= 0) {
+      cashBreakevenMonth = month
+    }
+
+    points.push({
+      month,
+      fleetSize: inputs.fleetSize,
+      utilizationPercent: inputs.utilizationPercent,
+      deadheadPercent: inputs.deadheadPercent,
+      vehicleCost: inputs.vehicleCost,
+      vehiclesPerOperator: inputs.vehiclesPerOperator,
+      totalCostPerMile: metrics.totalCostPerMile,
+      marginPerMile: metrics.marginPerMile,
+      operatingCashFlow,
+      capex,
+      netCashFlow,
+      cumulativeCash,
+    })
+  }
+
+  // Cash never went negative: in the black from the first month
+  if (troughCash >= 0) cashBreakevenMonth = 1
+
+  return { points, firstPositiveMarginMonth, cashBreakevenMonth, troughCash }
+}
+
+// Start from the current configuration, end at the given target configuration
+export function defaultProjectionInputs(start: SimulationInputs, end: SimulationInputs, years = 5): ProjectionInputs {
+  return {
+    months: years * 12,
+    ramps: {
+      fleetSize: { start: start.fleetSize, end: end.fleetSize, curve: 's-curve' },
+      utilizationPercent: { start: start.utilizationPercent, end: end.utilizationPercent, curve: 's-curve' },
+      deadheadPercent: { start: start.deadheadPercent, end: end.deadheadPercent, curve: 'linear' },
+      vehicleCost: { start: start.vehicleCost, end: end.vehicleCost, curve: 'learning' },
+      vehiclesPerOperator: { start: start.vehiclesPerOperator, end: end.vehiclesPerOperator, curve: 'learning' },
+    },
+  }
+}
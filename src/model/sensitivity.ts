@@ -0,0 +1,114 @@
+import { SimulationInputs, NumericInput, NUMERIC_INPUTS, calculateMetrics } from './economics'
+import { SLIDER_RANGES } from './parameters'
+
+// =============================================================================
+// Sensitivity (Tornado)
+// =============================================================================
+// Flexes one input at a time, holding the rest at the current configuration,
+// and records how far margin per mile and fleet profit move:
+//
+//   percent  low = value * (1 - percent/100), high = value * (1 + percent/100)
+//   range    low = slider min, high = slider max
+//
+//   swing       = |metric(high) - metric(low)|
+//   elasticity  = (Δmetric / metric) / (Δinput / input) for a ±1% nudge
+//
+// Inputs the current modes ignore (e.g. trip fares under per-mile pricing)
+// have zero swing and are dropped.
+// =============================================================================
+
+export type SensitivityMode = 'percent' | 'range'
+
+export type SensitivityMetric = 'marginPerMile' | 'fleetProfitPerDay'
+
+export interface SensitivityInputs {
+  mode: SensitivityMode
+  percent: number
+}
+
+export interface SensitivityRow {
+  field: NumericInput
+  label: string
+  lowValue: number
+  highValue: number
+  marginPerMile: { low: number; high: number; swing: number }
+  fleetProfitPerDay: { low: number; high: number; swing: number }
+  // null where the metric is ~0 at the current point and the ratio is meaningless
+  elasticity: {
+    totalCostPerMile: number | null
+    marginPerMile: number | null
+    fleetProfitPerDay: number | null
+  }
+}
+
+export const SENSITIVITY_MODES: Record<SensitivityMode, string> = {
+  percent: '± percent',
+  range: 'Slider range',
+}
+
+export const SENSITIVITY_METRICS: Record<SensitivityMetric, string> = {
+  marginPerMile: 'Margin / mile',
+  fleetProfitPerDay: 'Fleet profit / day',
+}
+
+export const DEFAULT_SENSITIVITY_INPUTS: SensitivityInputs = {
+  mode: 'percent',
+  percent: 10,
+}
+
+const ELASTICITY_STEP = 0.01
+// Below this (in the metric's own units) the base is treated as zero for elasticity
+const ELASTICITY_EPSILON = 1e-6
+
+// Swings on a degenerate point (no paid miles) are infinite; report them as 0
+const finiteOrZero = (value: number) => isFinite(value) ? value : 0
+
+function elasticity(base: number, low: number, high: number): number | null {
+  if (!isFinite(base) || !isFinite(low) || !isFinite(high) || Math.abs(base) < ELASTICITY_EPSILON) return null
+  return ((high - low) / Math.abs(base)) / (2 * ELASTICITY_STEP)
+}
+
+export function runSensitivity(params: SimulationInputs, sensitivity: SensitivityInputs): SensitivityRow[] {
+  const base = calculateMetrics(params)
+  const rows: SensitivityRow[] = []
+
+  for (const field of Object.keys(NUMERIC_INPUTS) as NumericInput[]) {
+    const value = params[field]
+    const lowValue = sensitivity.mode === 'range'
+      ? SLIDER_RANGES[field].min
+      : value * (1 - sensitivity.percent / 100)
+    const highValue = sensitivity.mode === 'range'
+      ? SLIDER_RANGES[field].max
+      : value * (1 + sensitivity.percent / 100)
+
+    const low = calculateMetrics({ ...params, [field]: lowValue })
+    const high = calculateMetrics({ ...params, [field]: highValue })
+    const marginSwing = finiteOrZero(Math.abs(high.marginPerMile - low.marginPerMile))
+    const profitSwing = finiteOrZero(Math.abs(high.fleetProfitPerDay - low.fleetProfitPerDay))
+    if (marginSwing === 0 && profitSwing === 0) continue
+
+    const nudgedDown = calculateMetrics({ ...params, [field]: value * (1 - ELASTICITY_STEP) })
+    const nudgedUp = calculateMetrics({ ...params, [field]: value * (1 + ELASTICITY_STEP) })
+
+    rows.push({
+      field,
+      label: NUMERIC_INPUTS[field],
+      lowValue,
+      highValue,
+      marginPerMile: { low: low.marginPerMile, high: high.marginPerMile, swing: marginSwing },
+      fleetProfitPerDay: { low: low.fleetProfitPerDay, high: high.fleetProfitPerDay, swing: profitSwing },
+      elasticity: {
+        totalCostPerMile: elasticity(base.totalCostPerMile, nudgedDown.totalCostPerMile, nudgedUp.totalCostPerMile),
+        marginPerMile: elasticity(base.marginPerMile, nudgedDown.marginPerMile, nudgedUp.marginPerMile),
+        fleetProfitPerDay: elasticity(base.fleetProfitPerDay, nudgedDown.fleetProfitPerDay, nudgedUp.fleetProfitPerDay),
+      },
+    })
+  }
+
+  return rows
+}
+
+// Largest swing first
+export function rankBy(rows: SensitivityRow[], metric: SensitivityMetric): SensitivityRow[] {
+  return [...rows].sort((a, b) => b[metric].swing - a[metric].swing)
+}
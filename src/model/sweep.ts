@@ -0,0 +1,43 @@
+import { NumericInput } from './economics'
+import { PARAMETERS, SLIDER_RANGES } from './parameters'
+
+// =============================================================================
+// One-input Sweep
+// =============================================================================
+// X values for the steady-state chart: any numeric input, swept over its
+// slider range. Inputs registered with a log scale (fleet size, vehicles per
+// operator) can be swept geometrically for a log-scale axis. The current
+// value is always included so the marker sits on the curve.
+//
+// parameterGrid gives the batch runner the same spacing, snapped to the
+// slider step.
+// =============================================================================
+
+export const SWEEP_POINTS = 41
+
+export const canUseLogScale = (field: NumericInput): boolean =>
+  PARAMETERS[field].scale === 'log' && SLIDER_RANGES[field].min > 0
+
+const spacedValues = (field: NumericInput, count: number, geometric: boolean): number[] => {
+  const { min, max } = SLIDER_RANGES[field]
+  return Array.from({ length: count }, (_, i) => {
+    const t = i / (count - 1)
+    return geometric ? min * Math.pow(max / min, t) : min + (max - min) * t
+  })
+}
+
+export function sweepValues(field: NumericInput, current: number, logScale: boolean): number[] {
+  const { min, max } = SLIDER_RANGES[field]
+  const values = spacedValues(field, SWEEP_POINTS, logScale && canUseLogScale(field))
+  if (current >= min && current <= max && !values.includes(current)) values.push(current)
+  return values.sort((a, b) => a - b)
+}
+
+// `count` values across the slider range on the input's own scale, snapped to
+// the slider step (log-scale inputs may come back with fewer after de-duplication)
+export function parameterGrid(field: NumericInput, count: number): number[] {
+  const { step } = PARAMETERS[field]
+  const snapped = spacedValues(field, count, canUseLogScale(field))
+    .map(value => Number((Math.round(value / step) * step).toFixed(6)))
+  return [...new Set(snapped)]
+}
@@ -0,0 +1,210 @@
+import { SimulationInputs, NumericInput, calculateMetrics } from './economics'
+
+// =============================================================================
+// Monte Carlo Uncertainty
+// =============================================================================
+// Any numeric input can carry a distribution instead of a point estimate. Each
+// sample copies the current inputs, overwrites the uncertain ones with draws,
+// and runs it through calculateMetrics, so the spread comes from the same
+// engine as every other number in the app.
+//
+//   uniform     flat between min and max
+//   triangular  min .. mode .. max
+//   normal      mean = mode, standard deviation = sd, truncated to [min, max]
+//   lognormal   median = mode, sigma = sqrt(ln(1 + (sd / mode)^2)), truncated to [min, max]
+//
+// Draws come from a seeded PRNG, so the same seed always gives the same run.
+// =============================================================================
+
+export type DistributionKind = 'uniform' | 'triangular' | 'normal' | 'lognormal'
+
+export interface InputDistribution {
+  kind: DistributionKind
+  min: number
+  max: number
+  // Most likely value (triangular), mean (normal) or median (lognormal)
+  mode: number
+  // Spread for normal and lognormal, in the input's own units
+  sd: number
+}
+
+export interface UncertaintyInputs {
+  samples: number
+  seed: number
+  distributions: Partial<Record<NumericInput, InputDistribution>>
+}
+
+export interface Percentiles {
+  p10: number
+  p50: number
+  p90: number
+}
+
+export interface HistogramBin {
+  x: number
+  count: number
+}
+
+export interface UncertaintyResult {
+  samples: number
+  // Share of samples with margin per mile > 0
+  probabilityProfitable: number
+  marginPerMile: Percentiles
+  totalCostPerMile: Percentiles
+  marginHistogram: HistogramBin[]
+  costHistogram: HistogramBin[]
+}
+
+export const DISTRIBUTION_KINDS: Record<DistributionKind, string> = {
+  uniform: 'Uniform',
+  triangular: 'Triangular',
+  normal: 'Normal',
+  lognormal: 'Lognormal',
+}
+
+export const DEFAULT_UNCERTAINTY_INPUTS: UncertaintyInputs = {
+  samples: 2000,
+  seed: 42,
+  distributions: {},
+}
+
+const HISTOGRAM_BINS = 30
+// Draws outside [min, max] are redrawn this many times before being clamped
+const MAX_REDRAWS = 20
+
+// ±20% around the current value, roughly what a first-pass range looks like
+export function defaultDistribution(value: number): InputDistribution {
+  const spread = Math.abs(value) * 0.2
+  return {
+    kind: 'triangular',
+    min: value - spread,
+    max: value + spread,
+    mode: value,
+    sd: spread / 2,
+  }
+}
+
+// Mulberry32: small, fast, good enough for sampling, and reproducible from a seed
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Box-Muller; 1 - rng() keeps the log argument away from zero
+function standardNormal(rng: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng())
+}
+
+function drawUnbounded(dist: InputDistribution, rng: () => number): number {
+  switch (dist.kind) {
+    case 'uniform':
+      return dist.min + (dist.max - dist.min) * rng()
+    case 'triangular': {
+      const range = dist.max - dist.min
+      if (range <= 0) return dist.min
+      const mode = Math.min(Math.max(dist.mode, dist.min), dist.max)
+      const split = (mode - dist.min) / range
+      const u = rng()
+      return u < split
+        ? dist.min + Math.sqrt(u * range * (mode - dist.min))
+        : dist.max - Math.sqrt((1 - u) * range * (dist.max - mode))
+    }
+    case 'normal':
+      return dist.mode + dist.sd * standardNormal(rng)
+    case 'lognormal':
+      if (dist.mode <= 0) return dist.mode
+      return dist.mode * Math.exp(Math.sqrt(Math.log(1 + (dist.sd / dist.mode) ** 2)) * standardNormal(rng))
+  }
+}
+
+export function sampleDistribution(dist: InputDistribution, rng: () => number): number {
+  const low = Math.min(dist.min, dist.max)
+  const high = Math.max(dist.min, dist.max)
+  let value = drawUnbounded(dist, rng)
+  for (let i = 0; i < MAX_REDRAWS && (value < low || value > high); i++) {
+    value = drawUnbounded(dist, rng)
+  }
+  return Math.min(Math.max(value, low), high)
+}
+
+// One input set per sample, with every uncertain input drawn independently
+export function sampleInputs(base: SimulationInputs, uncertainty: UncertaintyInputs): SimulationInputs[] {
+  const rng = createRng(uncertainty.seed)
+  const fields = Object.keys(uncertainty.distributions) as NumericInput[]
+  const count = Math.max(1, Math.round(uncertainty.samples))
+  const samples: SimulationInputs[] = []
+  for (let i = 0; i < count; i++) {
+    const sample = { ...base }
+    for (const field of fields) {
+      const dist = uncertainty.distributions[field]
+      if (dist) sample[field] = sampleDistribution(dist, rng)
+    }
+    samples.push(sample)
+  }
+  return samples
+}
+
+// Linear interpolation between order statistics; `sorted` must be ascending
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN
+  const index = (sorted.length - 1) * p
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  if (lower === upper) return sorted[lower]
+  // Zero-mileage samples carry ±Infinity; don't interpolate into NaN
+  if (!isFinite(sorted[lower]) || !isFinite(sorted[upper])) {
+    return index - lower < 0.5 ? sorted[lower] : sorted[upper]
+  }
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+export function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b)
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+  }
+}
+
+// Bins span P1..P99 so a handful of near-zero-mileage samples don't squash the rest
+function histogram(values: number[]): HistogramBin[] {
+  const sorted = values.filter(isFinite).sort((a, b) => a - b)
+  if (sorted.length === 0) return []
+  const low = percentile(sorted, 0.01)
+  const high = percentile(sorted, 0.99)
+  if (high <= low) return [{ x: low, count: sorted.length }]
+
+  const width = (high - low) / HISTOGRAM_BINS
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({ x: low + width * (i + 0.5), count: 0 }))
+  for (const value of sorted) {
+    const index = Math.min(Math.max(Math.floor((value - low) / width), 0), HISTOGRAM_BINS - 1)
+    bins[index].count++
+  }
+  return bins
+}
+
+export function runMonteCarlo(samples: SimulationInputs[]): UncertaintyResult {
+  const margins: number[] = []
+  const costs: number[] = []
+  for (const sample of samples) {
+    const metrics = calculateMetrics(sample)
+    margins.push(metrics.marginPerMile)
+    costs.push(metrics.totalCostPerMile)
+  }
+
+  return {
+    samples: samples.length,
+    probabilityProfitable: margins.filter(margin => margin > 0).length / Math.max(margins.length, 1),
+    marginPerMile: percentiles(margins),
+    totalCostPerMile: percentiles(costs),
+    marginHistogram: histogram(margins),
+    costHistogram: histogram(costs),
+  }
+}
@@ -0,0 +1,144 @@
+// Chart export: the charts on screen redrawn into one standalone SVG with a
+// title and an assumptions footnote, optionally rasterised to PNG. Everything
+// happens in the browser from the rendered DOM; nothing is fetched.
+
+import { SimulationInputs, NumericInput, PRICING_MODES, DEPRECIATION_METHODS, MILEAGE_MODELS, variableCostPerPaidMile } from '../model/economics'
+import { PARAMETERS } from '../model/parameters'
+import { UnitSettings, formatMetric, formatParameter, unitFormat } from './units'
+
+export interface ChartImage {
+  svg: string
+  width: number
+  height: number
+}
+
+const TITLE_HEIGHT = 36
+const FOOTNOTE_LINE_HEIGHT = 14
+const PADDING = 16
+const FONT_FAMILY = 'system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
+// Rough width of one 10px footnote character, for wrapping
+const FOOTNOTE_CHAR_WIDTH = 5.5
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// The inputs a reader needs to reproduce the chart, one phrase each, in the user's units
+export const assumptionPhrases = (inputs: SimulationInputs, units: UnitSettings): string[] => {
+  const value = (key: NumericInput) => formatParameter(PARAMETERS[key], inputs[key], units)
+  const { distance } = unitFormat(units)
+  return [
+    `fleet ${value('fleetSize')}`,
+    `${value('utilizationPercent')} utilization`,
+    `${value('deadheadPercent')} deadhead`,
+    `${value('vehiclesPerOperator')} vehicles / operator at ${value('operatorCostPerHour')}`,
+    `${inputs.opsHoursPerDay} ops hours / day`,
+    `${value('vehicleCost')} vehicle, ${inputs.vehicleLifetimeYears}-yr ${DEPRECIATION_METHODS[inputs.depreciationMethod].toLowerCase()}`,
+    inputs.variableCostMode === 'itemized'
+      ? `${formatMetric('variableCostPerPaidMile', variableCostPerPaidMile(inputs), units)}/paid ${distance} itemized variable cost (${inputs.energySource === 'fuel' ? `${value('milesPerGallon')} at ${value('fuelPrice')}` : `${value('kwhPerMile')} at ${value('electricityPrice')}`})`
+      : `${value('variableCostPerMile')}/${distance} variable cost`,
+    inputs.pricingMode === 'trip'
+      ? `${PRICING_MODES[inputs.pricingMode].toLowerCase()} ${value('baseFare')} + ${value('bookingFee')} + ${value('revenuePerMile')}/${distance} + ${value('perMinuteRate')}/min, ${value('avgTripMiles')} trips`
+      : `${value('revenuePerMile')}/${distance} revenue`,
+    inputs.mileageModel === 'ops-hours'
+      ? `${MILEAGE_MODELS[inputs.mileageModel].toLowerCase()} at ${value('avgSpeedMph')}`
+      : `${value('maxMilesPerDay')} max / day`,
+  ]
+}
+
+function wrapPhrases(phrases: string[], maxChars: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const phrase of phrases) {
+    const next = line ? `${line} · ${phrase}` : phrase
+    if (line && next.length > maxChars) {
+      lines.push(line)
+      line = phrase
+    } else {
+      line = next
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+// Recharts legends are HTML; redraw each item as a swatch and label
+function legendMarkup(items: HTMLElement[], left: number, top: number): string {
+  return items.map(item => {
+    const rect = item.getBoundingClientRect()
+    const swatch = item.querySelector('svg [fill]:not([fill="none"]), svg [stroke]:not([stroke="none"])')
+    const fill = swatch?.getAttribute('fill')
+    const color = fill && fill !== 'none' ? fill : swatch?.getAttribute('stroke') ?? '#666'
+    const x = rect.left - left
+    const y = rect.top - top
+    return `<rect x="${x}" y="${y + 2}" width="10" height="10" fill="${color}"/>`
+      + `<text x="${x + 14}" y="${y + 11}" font-size="12" fill="${color}">${escapeXml(item.textContent ?? '')}</text>`
+  }).join('')
+}
+
+// Lays out every chart under `container` as it appears on screen, cropped to
+// the charts and their legends. Each footnote paragraph is a list of phrases,
+// wrapped to the image width. Null when the current view has no chart.
+export function composeChartSvg(container: HTMLElement, title: string, footnote: string[][]): ChartImage | null {
+  const charts = Array.from(container.querySelectorAll('svg')).filter(svg =>
+    !svg.closest('.recharts-legend-wrapper') && !svg.parentElement?.closest('svg')
+  )
+  if (charts.length === 0) return null
+  const legendItems = Array.from(container.querySelectorAll<HTMLElement>('.recharts-legend-item'))
+
+  const rects = [...charts, ...legendItems].map(element => element.getBoundingClientRect())
+  const left = Math.min(...rects.map(rect => rect.left))
+  const right = Math.max(...rects.map(rect => rect.right))
+  const contentTop = Math.min(...rects.map(rect => rect.top))
+  const contentHeight = Math.max(...rects.map(rect => rect.bottom)) - contentTop
+  // Screen coordinates map to image coordinates below the title
+  const top = contentTop - TITLE_HEIGHT
+
+  const width = Math.ceil(right - left)
+  const maxChars = Math.floor((width - 2 * PADDING) / FOOTNOTE_CHAR_WIDTH)
+  const footnoteLines = footnote.flatMap(phrases => wrapPhrases(phrases, maxChars))
+  const footnoteTop = TITLE_HEIGHT + contentHeight + PADDING
+  const height = Math.ceil(footnoteTop + footnoteLines.length * FOOTNOTE_LINE_HEIGHT + PADDING / 2)
+
+  const chartMarkup = charts.map(svg => {
+    const rect = svg.getBoundingClientRect()
+    const clone = svg.cloneNode(true) as SVGSVGElement
+    clone.removeAttribute('class')
+    clone.setAttribute('x', String(rect.left - left))
+    clone.setAttribute('y', String(rect.top - top))
+    clone.setAttribute('width', String(rect.width))
+    clone.setAttribute('height', String(rect.height))
+    return new XMLSerializer().serializeToString(clone)
+  }).join('')
+
+  const footnoteMarkup = footnoteLines.map((line, i) =>
+    `<text x="${PADDING}" y="${footnoteTop + (i + 1) * FOOTNOTE_LINE_HEIGHT - 4}" font-size="10" fill="#6b7280">${escapeXml(line)}</text>`
+  ).join('')
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`
+    + `<rect width="100%" height="100%" fill="#ffffff"/>`
+    + `<text x="${PADDING}" y="24" font-size="16" font-weight="600" fill="#111827">${escapeXml(title)}</text>`
+    + chartMarkup
+    + legendMarkup(legendItems, left, top)
+    + footnoteMarkup
+    + `</svg>`
+
+  return { svg, width, height }
+}
+
+// Rasterised at 2x so it stays sharp on slides
+export const svgToPng = ({ svg, width, height }: ChartImage, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = width * scale
+      canvas.height = height * scale
+      const context = canvas.getContext('2d')
+      if (!context) return reject(new Error('Canvas is not available'))
+      context.scale(scale, scale)
+      context.drawImage(image, 0, 0)
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png')
+    }
+    image.onerror = () => reject(new Error('Could not render the chart image'))
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  })
@@ -0,0 +1,49 @@
+// CSV in and out, shaped for pasting into spreadsheets
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map(row => row.map(csvCell).join(',')).join('\n')
+
+// Header is every key, in the order first seen
+export const recordsToCsv = (records: Record<string, unknown>[]): string => {
+  const header = [...new Set(records.flatMap(record => Object.keys(record)))]
+  return toCsv([header, ...records.map(record => header.map(key => record[key]))])
+}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++ }
+      else if (char === '"') quoted = false
+      else cell += char
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
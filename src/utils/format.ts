@@ -0,0 +1,12 @@
+// Display helpers for investment returns (IRR, payback)
+
+export const formatIrr = (irrPercent: number | null): string => {
+  if (irrPercent === null) return 'n/a'
+  if (irrPercent > 1000) return '>1000%'
+  return `${irrPercent.toFixed(1)}%`
+}
+
+export const formatPayback = (months: number | null): string => {
+  if (months === null) return 'never'
+  return months < 24 ? `${months} mo` : `${(months / 12).toFixed(1)} yrs`
+}
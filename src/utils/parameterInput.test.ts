@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { nudgeParameter, parseParameterInput } from './parameterInput'
+import { PARAMETERS } from '../model/parameters'
+import { DEFAULT_UNITS, KM_PER_MILE, UnitSettings } from './units'
+
+const EUR_KM: UnitSettings = { distance: 'km', currency: 'EUR', exchangeRate: 0.9 }
+
+const parse = (key: keyof typeof PARAMETERS, text: string, units = DEFAULT_UNITS) =>
+  parseParameterInput(PARAMETERS[key], text, units)
+
+describe('parseParameterInput', () => {
+  it('reads k / m / b suffixes and thousands separators', () => {
+    expect(parse('vehicleCost', '170k')).toEqual({ ok: true, value: 170000 })
+    expect(parse('fleetSize', '1.2m')).toEqual({ ok: true, value: 1200000 })
+    expect(parse('fleetSize', '2,000')).toEqual({ ok: true, value: 2000 })
+    expect(parse('fleetSize', '0.001b')).toEqual({ ok: true, value: 1000000 })
+  })
+
+  it('strips currency symbols and codes on money inputs only', () => {
+    expect(parse('vehicleCost', '$170,000')).toEqual({ ok: true, value: 170000 })
+    expect(parse('vehicleCost', '170000 USD')).toEqual({ ok: true, value: 170000 })
+    expect(parse('fleetSize', '$2000')).toMatchObject({ ok: false })
+  })
+
+  it('accepts % on percentages and unit words after the number', () => {
+    expect(parse('utilizationPercent', '40%')).toEqual({ ok: true, value: 40 })
+    expect(parse('fleetSize', '40%')).toMatchObject({ ok: false })
+    expect(parse('avgSpeedMph', '25 mph')).toEqual({ ok: true, value: 25 })
+    expect(parse('vehicleLifetimeYears', '5 yrs')).toEqual({ ok: true, value: 5 })
+  })
+
+  it('converts from the user\'s units to dollars and miles', () => {
+    const cost = parse('vehicleCost', '€153k', EUR_KM)
+    expect(cost.ok && cost.value).toBeCloseTo(170000, 6)
+    const trip = parse('avgTripMiles', '8 km', EUR_KM)
+    expect(trip.ok && trip.value).toBeCloseTo(8 / KM_PER_MILE, 9)
+  })
+
+  it('rejects empty, non-numeric and out-of-range entries', () => {
+    expect(parse('fleetSize', '  ')).toEqual({ ok: false, error: 'Enter a value' })
+    expect(parse('fleetSize', 'lots')).toMatchObject({ ok: false })
+    expect(parse('utilizationPercent', '95')).toMatchObject({ ok: false, error: expect.stringMatching(/^Must be between/) })
+  })
+
+  describe('in a locale with "." grouping and "," decimals', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('reads the locale\'s separators', () => {
+      vi.spyOn(Intl.NumberFormat.prototype, 'formatToParts').mockReturnValue([
+        { type: 'currency', value: '$' },
+        { type: 'integer', value: '12' },
+        { type: 'group', value: '.' },
+        { type: 'integer', value: '345' },
+        { type: 'decimal', value: ',' },
+        { type: 'fraction', value: '6' },
+      ])
+      expect(parse('vehicleCost', '170.000')).toEqual({ ok: true, value: 170000 })
+      expect(parse('revenuePerMile', '$2,75')).toEqual({ ok: true, value: 2.75 })
+    })
+  })
+})
+
+describe('nudgeParameter', () => {
+  it('moves by whole steps within the range, without float noise', () => {
+    expect(nudgeParameter(PARAMETERS.revenuePerMile, 2.5, 1)).toBe(2.6)
+    expect(nudgeParameter(PARAMETERS.revenuePerMile, 4.95, 10)).toBe(5)
+    expect(nudgeParameter(PARAMETERS.utilizationPercent, 10, -1)).toBe(10)
+  })
+})
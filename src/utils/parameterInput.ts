@@ -0,0 +1,87 @@
+// Typed entry for registry parameters: format a value for editing and parse
+// what the user typed back. Values are shown and typed in the user's units
+// and locale, and handed back in model units (dollars, miles). Accepts
+// thousands separators, k / m / b suffixes ("170k", "1.2m"), the currency
+// symbol or code on money inputs, a trailing % on percentages and trailing
+// unit words such as "mi", "km" or "mph".
+
+import { ParameterSpec } from '../model/parameters'
+import { UnitSettings, currencySymbol, formatParameter, fromDisplay, isDefaultUnits, toDisplay } from './units'
+
+export type ParsedParameter =
+  | { ok: true; value: number }
+  | { ok: false; error: string }
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 }
+
+// Unit words ignored after the number
+const UNIT_WORDS = /(kwh\/(mi|km)|km\/gal|\/(h|hr|mi|km|min|kwh|gal|trip)|mph|mpg|km\/h|kph|kwh|km|mi|hrs?|h|yrs?)$/
+
+const isMoney = (spec: ParameterSpec) => spec.measure === 'money' || spec.measure === 'money-per-distance'
+
+const stepDecimals = (step: number) => (String(step).split('.')[1] ?? '').length
+
+// Decimals shown for an input: its step's, or enough for the converted step
+// when the user's units differ from the model's
+const inputDecimals = (spec: ParameterSpec, units: UnitSettings) => {
+  if (isDefaultUnits(units)) {
+    return isMoney(spec) && !Number.isInteger(spec.step) ? Math.max(2, stepDecimals(spec.step)) : stepDecimals(spec.step)
+  }
+  const displayStep = toDisplay(spec.step, spec.measure, units)
+  return Math.max(0, Math.min(4, -Math.floor(Math.log10(displayStep))))
+}
+
+// The locale's grouping and decimal separators
+const separators = () => {
+  const parts = new Intl.NumberFormat().formatToParts(12345.6)
+  return {
+    group: parts.find(part => part.type === 'group')?.value ?? ',',
+    decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+  }
+}
+
+export const formatParameterInput = (spec: ParameterSpec, value: number, units: UnitSettings): string => {
+  const decimals = inputDecimals(spec, units)
+  // Converted values are rounded to the step's precision rather than shown with float noise
+  const digits = { minimumFractionDigits: decimals, maximumFractionDigits: isDefaultUnits(units) ? Math.max(decimals, 4) : decimals }
+  const display = toDisplay(value, spec.measure, units)
+  if (isMoney(spec)) {
+    return display.toLocaleString(undefined, { style: 'currency', currency: units.currency, ...digits })
+  }
+  const number = display.toLocaleString(undefined, digits)
+  return `${number}${spec.unit === '%' ? '%' : ''}`
+}
+
+export const parseParameterInput = (spec: ParameterSpec, text: string, units: UnitSettings): ParsedParameter => {
+  const { group, decimal } = separators()
+  let rest = text.trim().toLowerCase().split(group).join('').replace(/\s/g, '')
+  if (!rest) return { ok: false, error: 'Enter a value' }
+
+  const symbols = [currencySymbol(units), units.currency, ...(units.currency === 'USD' ? ['$'] : [])].map(symbol => symbol.toLowerCase())
+  const symbol = symbols.find(candidate => rest.startsWith(candidate) || rest.endsWith(candidate))
+  if (symbol) {
+    if (!isMoney(spec)) return { ok: false, error: `${spec.label} is not an amount of money` }
+    rest = rest.startsWith(symbol) ? rest.slice(symbol.length) : rest.slice(0, -symbol.length)
+  }
+  if (rest.endsWith('%')) {
+    if (spec.unit !== '%') return { ok: false, error: `${spec.label} is not a percentage` }
+    rest = rest.slice(0, -1)
+  }
+  rest = rest.replace(UNIT_WORDS, '').replace(decimal, '.')
+
+  const match = /^(-?(?:\d+\.?\d*|\.\d+))([kmb])?$/.exec(rest)
+  if (!match) return { ok: false, error: `"${text.trim()}" is not a number` }
+  const typed = Number(match[1]) * (match[2] ? MULTIPLIERS[match[2]] : 1)
+  const value = fromDisplay(typed, spec.measure, units)
+
+  // A bound typed as shown (rounded after conversion) still counts as in range
+  const tolerance = isDefaultUnits(units) ? 0 : fromDisplay(Math.pow(10, -inputDecimals(spec, units)) / 2, spec.measure, units)
+  if (value < spec.min - tolerance || value > spec.max + tolerance) {
+    return { ok: false, error: `Must be between ${formatParameter(spec, spec.min, units)} and ${formatParameter(spec, spec.max, units)}` }
+  }
+  return { ok: true, value: Math.min(spec.max, Math.max(spec.min, value)) }
+}
+
+// Arrow-key nudge: one slider step (ten with Shift), kept in range
+export const nudgeParameter = (spec: ParameterSpec, value: number, steps: number): number =>
+  Math.min(spec.max, Math.max(spec.min, Number((value + steps * spec.step).toFixed(6))))
@@ -0,0 +1,106 @@
+// Preset library: the built-in catalog, the user's own presets (localStorage)
+// and the team library (Supabase, via /api/presets)
+
+import { SimulationInputs } from '../model/economics'
+import { PRESETS, DEFAULT_INPUTS } from '../model/presets'
+
+export type PresetSource = 'built-in' | 'user' | 'team'
+
+export const PRESET_SOURCES: Record<PresetSource, string> = {
+  'built-in': 'Built-in',
+  user: 'My presets',
+  team: 'Team library',
+}
+
+export interface PresetEntry {
+  // Built-in presets are keyed by name (as in share links); others by source:uuid
+  id: string
+  source: PresetSource
+  name: string
+  description: string
+  inputs: SimulationInputs
+  // Team presets only
+  author?: string
+  sourceNotes?: string
+  createdAt?: string
+}
+
+export interface TeamPresetDraft {
+  name: string
+  description: string
+  author: string
+  sourceNotes: string
+}
+
+const STORAGE_KEY = 'user_presets'
+
+export const BUILT_IN_PRESETS: PresetEntry[] = Object.entries(PRESETS).map(([name, inputs]) => ({
+  id: name,
+  source: 'built-in',
+  name,
+  description: '',
+  inputs,
+}))
+
+export const loadUserPresets = (): PresetEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    // Inputs added since a preset was saved fall back to defaults
+    return (JSON.parse(raw) as PresetEntry[]).map(preset => ({
+      ...preset,
+      source: 'user',
+      inputs: { ...DEFAULT_INPUTS, ...preset.inputs },
+    }))
+  } catch (error) {
+    console.warn('Could not read saved presets:', error)
+    return []
+  }
+}
+
+export const saveUserPresets = (presets: PresetEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+  } catch (error) {
+    // Quota or private mode - keep working in memory
+    console.warn('Could not save presets:', error)
+  }
+}
+
+export const createUserPreset = (name: string, description: string, inputs: SimulationInputs): PresetEntry => ({
+  id: `user:${crypto.randomUUID()}`,
+  source: 'user',
+  name,
+  description,
+  inputs: { ...inputs },
+  createdAt: new Date().toISOString(),
+})
+
+const toTeamEntry = (preset: Omit<PresetEntry, 'source'>): PresetEntry => ({
+  ...preset,
+  id: `team:${preset.id}`,
+  source: 'team',
+  inputs: { ...DEFAULT_INPUTS, ...preset.inputs },
+})
+
+export const fetchTeamPresets = async (): Promise<PresetEntry[]> => {
+  const response = await fetch('/api/presets')
+  if (!response.ok) throw new Error(`Team presets unavailable (${response.status})`)
+  const { presets } = await response.json()
+  return presets.map(toTeamEntry)
+}
+
+export const publishTeamPreset = async (draft: TeamPresetDraft, inputs: SimulationInputs): Promise<PresetEntry> => {
+  const response = await fetch('/api/presets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...draft, inputs }),
+  })
+  const body = await response.json()
+  if (!response.ok) throw new Error(body.error ?? `Publish failed (${response.status})`)
+  return toTeamEntry(body.preset)
+}
+
+// True once any input differs from the preset it was loaded from
+export const isModified = (inputs: SimulationInputs, preset: PresetEntry) =>
+  (Object.keys(preset.inputs) as (keyof SimulationInputs)[]).some(field => inputs[field] !== preset.inputs[field])
@@ -0,0 +1,71 @@
+// User-defined reference lines on the cost curve (benchmarks, internal targets).
+// They travel with the scenario: saved scenarios and scenario files carry them.
+
+import { SimulationMetrics, calculateMetrics } from '../model/economics'
+import { DEFAULT_INPUTS } from '../model/presets'
+
+export interface ReferenceLineSpec {
+  id: string
+  label: string
+  value: number
+  // CSS hex colour, e.g. #51cf66
+  color: string
+  // Drawn only while this metric is on the Y axis
+  metric: keyof SimulationMetrics
+}
+
+// Offered in turn as lines are added
+export const REFERENCE_LINE_COLORS = ['#51cf66', '#0ea5e9', '#f97316', '#64748b', '#db2777']
+
+export const DEFAULT_REFERENCE_LINES: ReferenceLineSpec[] = [
+  { id: 'healthy', label: 'Healthy', value: 1.5, color: '#51cf66', metric: 'totalCostPerMile' },
+]
+
+const METRIC_KEYS = new Set(Object.keys(calculateMetrics(DEFAULT_INPUTS)))
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+export const createReferenceLine = (
+  metric: keyof SimulationMetrics,
+  value: number,
+  existing: ReferenceLineSpec[]
+): ReferenceLineSpec => ({
+  id: crypto.randomUUID(),
+  label: 'Target',
+  value,
+  color: REFERENCE_LINE_COLORS[existing.length % REFERENCE_LINE_COLORS.length],
+  metric,
+})
+
+// Checks reference lines read from a file. Bad lines are dropped with a warning;
+// a missing colour falls back to the palette.
+export const validateReferenceLines = (raw: unknown): { lines: ReferenceLineSpec[]; warnings: string[] } => {
+  const lines: ReferenceLineSpec[] = []
+  const warnings: string[] = []
+  if (raw === undefined || raw === null) return { lines, warnings }
+  if (!Array.isArray(raw)) return { lines, warnings: ['Reference lines: expected a list; ignored.'] }
+
+  raw.forEach((entry, i) => {
+    const line = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : {}
+    const label = typeof line.label === 'string' && line.label.trim() ? line.label.trim() : `Line ${i + 1}`
+    const value = typeof line.value === 'number' ? line.value : typeof line.value === 'string' && line.value.trim() !== '' ? Number(line.value) : NaN
+    if (!isFinite(value)) {
+      warnings.push(`Reference line "${label}": "${line.value}" is not a number; dropped.`)
+      return
+    }
+    if (typeof line.metric !== 'string' || !METRIC_KEYS.has(line.metric)) {
+      warnings.push(`Reference line "${label}": unknown metric "${line.metric}"; dropped.`)
+      return
+    }
+    lines.push({
+      id: crypto.randomUUID(),
+      label,
+      value,
+      color: typeof line.color === 'string' && HEX_COLOR.test(line.color)
+        ? line.color
+        : REFERENCE_LINE_COLORS[lines.length % REFERENCE_LINE_COLORS.length],
+      metric: line.metric as keyof SimulationMetrics,
+    })
+  })
+
+  return { lines, warnings }
+}
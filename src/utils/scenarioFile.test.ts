@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { SCENARIO_SCHEMA_VERSION, ScenarioExport, parseScenarioFile, scenarioToCsv, scenarioToJson } from './scenarioFile'
+import { SimulationInputs, calculateMetrics } from '../model/economics'
+import { PRESETS } from '../model/presets'
+import { PARAMETER_DEFAULTS } from '../model/parameters'
+import { DEFAULT_REFERENCE_LINES } from './referenceLines'
+import { DEFAULT_UNITS } from './units'
+
+const INPUTS: SimulationInputs = {
+  ...PRESETS['Scaling city'],
+  pricingMode: 'trip',
+  variableCostMode: 'itemized',
+  depreciationMethod: 'declining-balance',
+  vehicleAgeYears: 2,
+}
+
+const EXPORT: ScenarioExport = {
+  name: 'Scaling city (modified)',
+  inputs: INPUTS,
+  referenceLines: DEFAULT_REFERENCE_LINES,
+  metrics: calculateMetrics(INPUTS),
+  chart: { xLabel: 'Utilization (%)', yLabel: 'Cost / mile ($)', points: [{ x: 10, y: 12.5 }, { x: 20, y: null }] },
+  units: DEFAULT_UNITS,
+}
+
+// The original eight-slider export, before schema versions
+const V1_FILE = {
+  fleetSize: 1000,
+  vehiclesPerOperator: 4,
+  vehicleCost: 150000,
+  opsHoursPerDay: 18,
+  deadheadPercent: 40,
+  variableCostPerMile: 0.5,
+  revenuePerMile: 2.8,
+  utilizationPercent: 45,
+}
+
+describe('round trip', () => {
+  it('reads back a JSON export unchanged', () => {
+    const imported = parseScenarioFile(scenarioToJson(EXPORT), 'scenario.json')
+    expect(imported.name).toBe(EXPORT.name)
+    expect(imported.inputs).toEqual(INPUTS)
+    expect(imported.referenceLines.map(({ label, value, metric }) => ({ label, value, metric })))
+      .toEqual([{ label: 'Healthy', value: 1.5, metric: 'totalCostPerMile' }])
+    expect(imported.warnings).toEqual([])
+  })
+
+  it('reads back a CSV export unchanged', () => {
+    const imported = parseScenarioFile(scenarioToCsv(EXPORT), 'scenario.csv')
+    expect(imported.inputs).toEqual(INPUTS)
+    expect(imported.warnings).toEqual([])
+  })
+
+  it('writes the current schema version', () => {
+    expect(JSON.parse(scenarioToJson(EXPORT)).schemaVersion).toBe(SCENARIO_SCHEMA_VERSION)
+  })
+})
+
+describe('migrations', () => {
+  it('migrates an unversioned eight-slider file through every version', () => {
+    const imported = parseScenarioFile(JSON.stringify(V1_FILE), 'old.json')
+    expect(imported.inputs).toMatchObject({
+      ...V1_FILE,
+      // v1 → v2: the fixed constants of the time and the original modes
+      operatorCostPerHour: 40,
+      maxMilesPerDay: 300,
+      vehicleLifetimeYears: 5,
+      depreciationMethod: 'straight-line',
+      mileageModel: 'fixed-cap',
+      pricingMode: 'per-mile',
+      // v2 → v3: the flat variable cost keeps applying
+      variableCostMode: 'flat',
+      energySource: 'electric',
+      kwhPerMile: PARAMETER_DEFAULTS.kwhPerMile,
+      // v3 → v4
+      vehicleAgeYears: 0,
+    })
+    const migrations = imported.warnings.filter(warning => warning.startsWith('Migrated'))
+    expect(migrations.map(warning => warning.slice(0, 'Migrated from schema v1'.length)))
+      .toEqual(['Migrated from schema v1', 'Migrated from schema v2', 'Migrated from schema v3'])
+  })
+
+  it('keeps what a v2 file says and fills only the newer fields', () => {
+    const { variableCostMode: _mode, energySource: _source, vehicleAgeYears: _age, ...v2Inputs } = PRESETS['Mature city']
+    const imported = parseScenarioFile(JSON.stringify({ schemaVersion: 2, inputs: v2Inputs }), 'v2.json')
+    expect(imported.inputs).toEqual({ ...PRESETS['Mature city'], variableCostMode: 'flat', energySource: 'electric', vehicleAgeYears: 0 })
+    expect(imported.warnings).toEqual([
+      'Migrated from schema v2: added variableCostMode, energySource.',
+      'Migrated from schema v3: added vehicleAgeYears.',
+    ])
+  })
+
+  it('reads a CSV without section headers as a v1 sheet', () => {
+    const imported = parseScenarioFile('fleetSize,1000\nutilizationPercent,45\n', 'sheet.csv')
+    expect(imported.inputs.fleetSize).toBe(1000)
+    expect(imported.inputs.operatorCostPerHour).toBe(40)
+  })
+
+  it('refuses versions it does not know', () => {
+    expect(() => parseScenarioFile(JSON.stringify({ schemaVersion: SCENARIO_SCHEMA_VERSION + 1, inputs: {} }), 'new.json'))
+      .toThrow(/Unsupported schema version/)
+  })
+
+  it('clamps out-of-range values and drops unknown fields with a warning', () => {
+    const imported = parseScenarioFile(JSON.stringify({ ...V1_FILE, utilizationPercent: 150, surgeMultiplier: 2 }), 'old.json')
+    expect(imported.inputs.utilizationPercent).toBe(90)
+    expect(imported.warnings).toContain('Unknown field "surgeMultiplier" ignored.')
+  })
+})
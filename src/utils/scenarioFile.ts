@@ -0,0 +1,219 @@
+// Scenario files: export the current scenario as JSON or CSV and read either back
+//
+// Schema versions:
+//   1  the original eight sliders (see App-no-charts.tsx) with fixed constants:
+//      $40/hr operators, a 1825-day (5-year) vehicle life and 300 max miles/day
+//   2  full SimulationInputs
+//   3  itemized variable cost: variableCostMode, energySource and the line items
+//   4  vehicleAgeYears (declining balance charges that year of the schedule)
+//
+// Files without a version are treated as version 1. Older versions are migrated
+// forward one step at a time, then every field is checked against the slider ranges.
+// Reference lines are optional in any version; files without them import with none.
+//
+// Inputs and reference lines are always written in US dollars and miles, as the
+// model uses them, so a file reads back the same whatever the reader's units.
+// KPIs and the chart series are in the exporter's units, recorded under `units`
+// (informational; imports ignore them).
+
+import {
+  SimulationInputs,
+  SimulationMetrics,
+  DAYS_PER_YEAR,
+  MAX_DEADHEAD_DECIMAL,
+  BREAK_EVEN_BAND,
+} from '../model/economics'
+import { DEFAULT_INPUTS } from '../model/presets'
+import { PARAMETER_DEFAULTS } from '../model/parameters'
+import { isInputField, validateInputs } from './validateInputs'
+import { toCsv, parseCsv } from './csv'
+import { ReferenceLineSpec, validateReferenceLines } from './referenceLines'
+import { UnitSettings, metricsToDisplay } from './units'
+
+export const SCENARIO_SCHEMA = 'robotaxi-cost-model/scenario'
+export const SCENARIO_SCHEMA_VERSION = 4
+
+export interface ChartSeries {
+  xLabel: string
+  yLabel: string
+  points: { x: number; y: number | null }[]
+}
+
+export interface ScenarioExport {
+  name: string
+  inputs: SimulationInputs
+  referenceLines: ReferenceLineSpec[]
+  // Model units; converted to `units` on export
+  metrics: SimulationMetrics
+  // Already in `units`
+  chart: ChartSeries
+  units: UnitSettings
+}
+
+export interface ScenarioImport {
+  name: string | null
+  inputs: SimulationInputs
+  referenceLines: ReferenceLineSpec[]
+  // Migrations applied and values clamped or ignored
+  warnings: string[]
+}
+
+type RawInputs = Record<string, unknown>
+
+// Each entry upgrades raw inputs from version N to N + 1
+const MIGRATIONS: Record<number, (inputs: RawInputs) => RawInputs> = {
+  1: (inputs) => ({
+    operatorCostPerHour: 40,
+    maxMilesPerDay: 300,
+    vehicleLifetimeYears: 1825 / DAYS_PER_YEAR,
+    depreciationMethod: 'straight-line',
+    mileageModel: 'fixed-cap',
+    pricingMode: 'per-mile',
+    ...inputs,
+  }),
+  // The flat figure keeps costing the file as before; the items are there to switch to
+  2: (inputs) => ({
+    variableCostMode: 'flat',
+    energySource: 'electric',
+    kwhPerMile: PARAMETER_DEFAULTS.kwhPerMile,
+    electricityPrice: PARAMETER_DEFAULTS.electricityPrice,
+    milesPerGallon: PARAMETER_DEFAULTS.milesPerGallon,
+    fuelPrice: PARAMETER_DEFAULTS.fuelPrice,
+    maintenancePerMile: PARAMETER_DEFAULTS.maintenancePerMile,
+    tiresPerMile: PARAMETER_DEFAULTS.tiresPerMile,
+    insurancePerMile: PARAMETER_DEFAULTS.insurancePerMile,
+    cleaningPerTrip: PARAMETER_DEFAULTS.cleaningPerTrip,
+    calibrationPerMile: PARAMETER_DEFAULTS.calibrationPerMile,
+    ...inputs,
+  }),
+  // Declining balance used to charge the life average; older files read as a new vehicle
+  3: (inputs) => ({
+    vehicleAgeYears: PARAMETER_DEFAULTS.vehicleAgeYears,
+    ...inputs,
+  }),
+}
+
+const CONSTANTS = {
+  DAYS_PER_YEAR,
+  MAX_DEADHEAD_DECIMAL,
+  BREAK_EVEN_BAND,
+}
+
+// JSON has no Infinity; unbounded per-mile figures are written as null
+const finiteOrNull = (value: number | null) => value !== null && isFinite(value) ? value : null
+
+// Line ids are local to this browser and are not written out
+const exportedLines = (lines: ReferenceLineSpec[]) =>
+  lines.map(({ label, value, color, metric }) => ({ label, value, color, metric }))
+
+export const scenarioToJson = ({ name, inputs, referenceLines, metrics, chart, units }: ScenarioExport): string =>
+  JSON.stringify({
+    schema: SCENARIO_SCHEMA,
+    schemaVersion: SCENARIO_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    name,
+    inputs,
+    referenceLines: exportedLines(referenceLines),
+    constants: CONSTANTS,
+    units,
+    kpis: Object.fromEntries(Object.entries(metricsToDisplay(metrics, units)).map(([key, value]) => [key, finiteOrNull(value)])),
+    chart,
+  }, null, 2)
+
+// One long table so it pastes straight into a spreadsheet: section, field, value.
+// Reference lines add two trailing columns: reference, label, value, metric, color
+export const scenarioToCsv = ({ name, inputs, referenceLines, metrics, chart, units }: ScenarioExport): string => {
+  const rows: unknown[][] = [
+    ['section', 'field', 'value'],
+    ['meta', 'schema', SCENARIO_SCHEMA],
+    ['meta', 'schemaVersion', SCENARIO_SCHEMA_VERSION],
+    ['meta', 'name', name],
+    ...Object.entries(inputs).map(([field, value]) => ['input', field, value]),
+    ...exportedLines(referenceLines).map(line => ['reference', line.label, line.value, line.metric, line.color]),
+    ...Object.entries(CONSTANTS).map(([field, value]) => ['constant', field, value]),
+    ['meta', 'distanceUnit', units.distance],
+    ['meta', 'currency', units.currency],
+    ['meta', 'exchangeRate', units.exchangeRate],
+    ...Object.entries(metricsToDisplay(metrics, units)).map(([field, value]) => ['kpi', field, finiteOrNull(value)]),
+    ['meta', 'chartX', chart.xLabel],
+    ['meta', 'chartY', chart.yLabel],
+    ...chart.points.map(point => ['series', point.x, finiteOrNull(point.y)]),
+  ]
+  return toCsv(rows)
+}
+
+interface RawScenario {
+  version: number
+  name: string | null
+  inputs: RawInputs
+  referenceLines: unknown
+}
+
+const readJson = (text: string): RawScenario => {
+  const data = JSON.parse(text)
+  if (typeof data !== 'object' || data === null) throw new Error('Expected a JSON object')
+  // Early files were a bare inputs object
+  const inputs = typeof data.inputs === 'object' && data.inputs !== null ? data.inputs : data
+  return {
+    version: data.schemaVersion ?? 1,
+    name: typeof data.name === 'string' ? data.name : null,
+    inputs,
+    referenceLines: data.referenceLines,
+  }
+}
+
+// Accepts the section,field,value layout above, or a bare two-column field,value sheet
+const readCsv = (text: string): RawScenario => {
+  const rows = parseCsv(text.trim()).map(row => row.map(cell => cell.trim()))
+  const sectioned = rows[0]?.[0] === 'section'
+  const referenceLines: Record<string, string>[] = []
+  const raw: RawScenario = { version: 1, name: null, inputs: {}, referenceLines }
+  for (const row of rows.slice(sectioned ? 1 : 0)) {
+    const [section, field, value, metric, color] = sectioned ? row : ['input', ...row]
+    if (section === 'meta' && field === 'schemaVersion') raw.version = Number(value)
+    else if (section === 'meta' && field === 'name') raw.name = value || null
+    else if (section === 'input' && field) raw.inputs[field] = value
+    else if (section === 'reference') referenceLines.push({ label: field, value, metric, color })
+  }
+  return raw
+}
+
+export const parseScenarioFile = (text: string, filename: string): ScenarioImport => {
+  const isJson = filename.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{')
+  const raw = isJson ? readJson(text) : readCsv(text)
+  const warnings: string[] = []
+
+  if (!Number.isInteger(raw.version) || raw.version < 1 || raw.version > SCENARIO_SCHEMA_VERSION) {
+    throw new Error(`Unsupported schema version "${raw.version}" (this app reads 1–${SCENARIO_SCHEMA_VERSION})`)
+  }
+
+  let inputs = raw.inputs
+  for (let version = raw.version; version < SCENARIO_SCHEMA_VERSION; version++) {
+    const before = new Set(Object.keys(inputs))
+    inputs = MIGRATIONS[version](inputs)
+    const added = Object.keys(inputs).filter(key => !before.has(key))
+    if (added.length > 0) {
+      warnings.push(`Migrated from schema v${version}: added ${added.join(', ')}.`)
+    }
+  }
+
+  const known: RawInputs = {}
+  for (const [key, value] of Object.entries(inputs)) {
+    if (isInputField(key)) known[key] = value
+    else warnings.push(`Unknown field "${key}" ignored.`)
+  }
+
+  const missing = Object.keys(DEFAULT_INPUTS).filter(key => !(key in known))
+  if (missing.length > 0) {
+    warnings.push(`Missing ${missing.join(', ')}; used the defaults.`)
+  }
+
+  const validated = validateInputs(known, DEFAULT_INPUTS)
+  const lines = validateReferenceLines(raw.referenceLines)
+  return {
+    name: raw.name,
+    inputs: validated.inputs,
+    referenceLines: lines.lines,
+    warnings: [...warnings, ...validated.warnings, ...lines.warnings],
+  }
+}
@@ -0,0 +1,65 @@
+// Saved scenarios, persisted in localStorage so they survive reloads
+
+import { SimulationInputs } from '../model/economics'
+import { DEFAULT_INPUTS } from '../model/presets'
+import { ReferenceLineSpec } from './referenceLines'
+
+export interface Scenario {
+  id: string
+  name: string
+  inputs: SimulationInputs
+  referenceLines: ReferenceLineSpec[]
+  createdAt: string
+}
+
+export interface ScenarioStore {
+  scenarios: Scenario[]
+  // Pinned for comparison, in pin order
+  pinnedIds: string[]
+}
+
+export const MAX_PINNED = 4
+
+// Overlay colours for pinned scenarios, by pin order
+export const SCENARIO_COLORS = ['#f59e0b', '#9333ea', '#10b981', '#ef4444']
+
+const STORAGE_KEY = 'saved_scenarios'
+
+export const loadScenarioStore = (): ScenarioStore => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return { scenarios: [], pinnedIds: [] }
+    const stored = JSON.parse(raw) as ScenarioStore
+    // Inputs added since a scenario was saved fall back to defaults
+    const scenarios = (stored.scenarios ?? []).map(scenario => ({
+      ...scenario,
+      inputs: { ...DEFAULT_INPUTS, ...scenario.inputs },
+      referenceLines: scenario.referenceLines ?? [],
+    }))
+    const ids = new Set(scenarios.map(scenario => scenario.id))
+    return {
+      scenarios,
+      pinnedIds: (stored.pinnedIds ?? []).filter(id => ids.has(id)).slice(0, MAX_PINNED),
+    }
+  } catch (error) {
+    console.warn('Could not read saved scenarios:', error)
+    return { scenarios: [], pinnedIds: [] }
+  }
+}
+
+export const saveScenarioStore = (store: ScenarioStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store))
+  } catch (error) {
+    // Quota or private mode - keep working in memory
+    console.warn('Could not save scenarios:', error)
+  }
+}
+
+export const createScenario = (name: string, inputs: SimulationInputs, referenceLines: ReferenceLineSpec[]): Scenario => ({
+  id: crypto.randomUUID(),
+  name,
+  inputs: { ...inputs },
+  referenceLines: referenceLines.map(line => ({ ...line })),
+  createdAt: new Date().toISOString(),
+})
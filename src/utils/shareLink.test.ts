@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { SHARE_VERSION, ShareState, decodeShareState, encodeShareState } from './shareLink'
+import { PRESETS } from '../model/presets'
+import { PARAMETER_DEFAULTS } from '../model/parameters'
+
+const STATE: ShareState = {
+  inputs: {
+    ...PRESETS['Scaling city'],
+    pricingMode: 'trip',
+    variableCostMode: 'itemized',
+    energySource: 'fuel',
+    depreciationMethod: 'declining-balance',
+    vehicleAgeYears: 3,
+  },
+  xAxisVariable: 'deadheadPercent',
+  xAxisLog: true,
+  preset: 'Scaling city',
+}
+
+// A link from before itemized variable cost: the original short keys only
+const V1_LINK = 'v=1&p=Scaling+city&x=utilizationPercent&fs=2000&vpo=5&vc=120000&vcm=0.45&u=55'
+
+describe('round trip', () => {
+  it('decodes an encoded state unchanged', () => {
+    const { state, warnings } = decodeShareState(`#${encodeShareState(STATE)}`)
+    expect(state).toEqual(STATE)
+    expect(warnings).toEqual([])
+  })
+
+  it('writes the current version', () => {
+    expect(new URLSearchParams(encodeShareState(STATE)).get('v')).toBe(String(SHARE_VERSION))
+  })
+
+  it('returns an empty state for a hash that is not a share link', () => {
+    expect(decodeShareState('#section-2')).toEqual({ state: {}, warnings: [] })
+  })
+})
+
+describe('migrations', () => {
+  it('migrates a version 1 link through every version', () => {
+    const { state, warnings } = decodeShareState(V1_LINK)
+    expect(warnings).toEqual([])
+    expect(state.inputs).toMatchObject({
+      fleetSize: 2000,
+      vehiclesPerOperator: 5,
+      vehicleCost: 120000,
+      variableCostPerMile: 0.45,
+      utilizationPercent: 55,
+      // Version 1 → 2: the flat figure keeps costing the link
+      variableCostMode: 'flat',
+      energySource: 'electric',
+      kwhPerMile: PARAMETER_DEFAULTS.kwhPerMile,
+      maintenancePerMile: PARAMETER_DEFAULTS.maintenancePerMile,
+      // Version 2 → 3: a new vehicle
+      vehicleAgeYears: PARAMETER_DEFAULTS.vehicleAgeYears,
+    })
+  })
+
+  it('fills only the vehicle age for a version 2 link', () => {
+    const v2 = new URLSearchParams(encodeShareState(STATE))
+    v2.set('v', '2')
+    v2.delete('va')
+    const { state, warnings } = decodeShareState(v2.toString())
+    expect(warnings).toEqual([])
+    expect(state.inputs).toEqual({ ...STATE.inputs, vehicleAgeYears: PARAMETER_DEFAULTS.vehicleAgeYears })
+  })
+
+  it('keeps values an older link already carries', () => {
+    const { state } = decodeShareState(`${V1_LINK}&vm=itemized&va=4`)
+    expect(state.inputs?.variableCostMode).toBe('itemized')
+    expect(state.inputs?.vehicleAgeYears).toBe(4)
+  })
+
+  it('reads an unsupported version as the current one, with a warning', () => {
+    const { state, warnings } = decodeShareState('v=9&fs=1500')
+    expect(warnings).toEqual([
+      `Link version 9 is not supported (expected 1–${SHARE_VERSION}); values were read as version ${SHARE_VERSION}.`,
+    ])
+    expect(state.inputs?.fleetSize).toBe(1500)
+  })
+})
+
+describe('unknown values', () => {
+  it('maps legacy X axis names', () => {
+    expect(decodeShareState('v=3&x=utilization').state.xAxisVariable).toBe('utilizationPercent')
+    expect(decodeShareState('v=3&x=opsHours').state.xAxisVariable).toBe('opsHoursPerDay')
+  })
+
+  it('ignores prototype names as a preset or X axis', () => {
+    const { state, warnings } = decodeShareState('v=3&p=toString&x=constructor')
+    expect(state.preset).toBeUndefined()
+    expect(state.xAxisVariable).toBeUndefined()
+    expect(warnings).toEqual(['Unknown preset "toString" ignored.', 'Unknown X axis "constructor" ignored.'])
+  })
+
+  it('clamps out-of-range values and warns about unknown parameters', () => {
+    const { state, warnings } = decodeShareState('v=3&fs=-5&zz=1')
+    expect(state.inputs?.fleetSize).toBe(500)
+    expect(warnings).toEqual(['Fleet size: -5 is outside 500–6000000; clamped to 500.', 'Unknown parameter "zz" ignored.'])
+  })
+})
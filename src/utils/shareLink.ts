@@ -0,0 +1,170 @@
+// Shareable links: the full model state packed into the URL hash
+//
+//   #v=3&p=Scaling+city&x=utilizationPercent&fs=2000&vpo=5&...
+//
+// Every input is written (not just the ones that differ from a preset) so a link
+// keeps meaning the same thing if the presets are retuned later.
+
+import { SimulationInputs, NumericInput, NUMERIC_INPUTS } from '../model/economics'
+import { PRESETS, DEFAULT_INPUTS } from '../model/presets'
+import { PARAMETER_DEFAULTS } from '../model/parameters'
+import { validateInputs } from './validateInputs'
+
+// Bump when an input is added, or a short key is renamed or changes meaning,
+// and add a migration below. Versions:
+//   1  before itemized variable cost
+//   2  variableCostMode, energySource and the variable cost line items
+//   3  vehicleAgeYears (declining balance charges that year of the schedule)
+export const SHARE_VERSION = 3
+
+type LinkValues = Partial<Record<keyof SimulationInputs, string>>
+
+// Each entry upgrades link values from version N to N + 1
+const MIGRATIONS: Record<number, (values: LinkValues) => LinkValues> = {
+  // The flat figure keeps costing the link as before; the items are there to switch to
+  1: (values) => ({
+    variableCostMode: 'flat',
+    energySource: 'electric',
+    kwhPerMile: String(PARAMETER_DEFAULTS.kwhPerMile),
+    electricityPrice: String(PARAMETER_DEFAULTS.electricityPrice),
+    milesPerGallon: String(PARAMETER_DEFAULTS.milesPerGallon),
+    fuelPrice: String(PARAMETER_DEFAULTS.fuelPrice),
+    maintenancePerMile: String(PARAMETER_DEFAULTS.maintenancePerMile),
+    tiresPerMile: String(PARAMETER_DEFAULTS.tiresPerMile),
+    insurancePerMile: String(PARAMETER_DEFAULTS.insurancePerMile),
+    cleaningPerTrip: String(PARAMETER_DEFAULTS.cleaningPerTrip),
+    calibrationPerMile: String(PARAMETER_DEFAULTS.calibrationPerMile),
+    ...values,
+  }),
+  // Declining balance used to charge the life average; older links read as a new vehicle
+  2: (values) => ({
+    vehicleAgeYears: String(PARAMETER_DEFAULTS.vehicleAgeYears),
+    ...values,
+  }),
+}
+
+// Short URL keys; typed against SimulationInputs so a new input can't be left out
+const SHORT_KEYS: Record<keyof SimulationInputs, string> = {
+  fleetSize: 'fs',
+  vehiclesPerOperator: 'vpo',
+  vehicleCost: 'vc',
+  opsHoursPerDay: 'oh',
+  deadheadPercent: 'dh',
+  variableCostPerMile: 'vcm',
+  variableCostMode: 'vm',
+  energySource: 'es',
+  kwhPerMile: 'kwh',
+  electricityPrice: 'ep',
+  milesPerGallon: 'mpg',
+  fuelPrice: 'fp',
+  maintenancePerMile: 'mn',
+  tiresPerMile: 'ti',
+  insurancePerMile: 'in',
+  cleaningPerTrip: 'cl',
+  calibrationPerMile: 'cal',
+  revenuePerMile: 'rpm',
+  pricingMode: 'pm',
+  avgTripMiles: 'tm',
+  avgSpeedMph: 'sp',
+  baseFare: 'bf',
+  perMinuteRate: 'pmr',
+  bookingFee: 'bk',
+  utilizationPercent: 'u',
+  mileageModel: 'mm',
+  vehicleLifetimeYears: 'ly',
+  depreciationMethod: 'dm',
+  vehicleLifetimeMiles: 'lm',
+  vehicleAgeYears: 'va',
+  operatorCostPerHour: 'oc',
+  maxMilesPerDay: 'mx',
+}
+
+const RESERVED_KEYS = ['v', 'p', 'x', 'xl']
+
+// X axis names from before any input could be charted
+const LEGACY_X_AXES: Record<string, NumericInput> = {
+  utilization: 'utilizationPercent',
+  deadhead: 'deadheadPercent',
+  opsHours: 'opsHoursPerDay',
+}
+
+export interface ShareState {
+  inputs: SimulationInputs
+  xAxisVariable: NumericInput
+  xAxisLog: boolean
+  // Id of the preset the inputs started from, '' when none
+  preset: string
+}
+
+export interface DecodedShareState {
+  state: Partial<ShareState>
+  // Human-readable notes about values that were clamped or ignored
+  warnings: string[]
+}
+
+export const encodeShareState = (state: ShareState): string => {
+  const params = new URLSearchParams()
+  params.set('v', String(SHARE_VERSION))
+  if (state.preset) params.set('p', state.preset)
+  params.set('x', state.xAxisVariable)
+  if (state.xAxisLog) params.set('xl', '1')
+  for (const field of Object.keys(SHORT_KEYS) as (keyof SimulationInputs)[]) {
+    params.set(SHORT_KEYS[field], String(state.inputs[field]))
+  }
+  return params.toString()
+}
+
+// Returns an empty state when the hash isn't a share link, so a plain visit starts from defaults
+export const decodeShareState = (hash: string): DecodedShareState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  const warnings: string[] = []
+  if (!params.has('v')) return { state: {}, warnings }
+
+  const version = Number(params.get('v'))
+  const supported = Number.isInteger(version) && version >= 1 && version <= SHARE_VERSION
+  if (!supported) {
+    warnings.push(`Link version ${params.get('v')} is not supported (expected 1–${SHARE_VERSION}); values were read as version ${SHARE_VERSION}.`)
+  }
+
+  const state: Partial<ShareState> = {}
+
+  const preset = params.get('p')
+  if (preset !== null) {
+    // User and team presets can't be checked here; the inputs below are complete anyway
+    if (Object.hasOwn(PRESETS, preset) || /^(user|team):/.test(preset)) state.preset = preset
+    else warnings.push(`Unknown preset "${preset}" ignored.`)
+  }
+
+  const x = params.get('x')
+  if (x !== null) {
+    if (Object.hasOwn(NUMERIC_INPUTS, x)) state.xAxisVariable = x as NumericInput
+    else if (Object.hasOwn(LEGACY_X_AXES, x)) state.xAxisVariable = LEGACY_X_AXES[x]
+    else warnings.push(`Unknown X axis "${x}" ignored.`)
+  }
+  state.xAxisLog = params.get('xl') === '1'
+
+  let values: LinkValues = {}
+  for (const field of Object.keys(SHORT_KEYS) as (keyof SimulationInputs)[]) {
+    const raw = params.get(SHORT_KEYS[field])
+    if (raw !== null) values[field] = raw
+  }
+  // Older links are migrated forward one step at a time
+  for (let from = supported ? version : SHARE_VERSION; from < SHARE_VERSION; from++) {
+    values = MIGRATIONS[from](values)
+  }
+
+  // Fields missing from the link fall back to the preset, then to the defaults
+  const validated = validateInputs(values, state.preset && Object.hasOwn(PRESETS, state.preset) ? PRESETS[state.preset] : DEFAULT_INPUTS)
+  warnings.push(...validated.warnings)
+
+  const knownKeys = new Set([...RESERVED_KEYS, ...Object.values(SHORT_KEYS)])
+  for (const key of params.keys()) {
+    if (!knownKeys.has(key)) warnings.push(`Unknown parameter "${key}" ignored.`)
+  }
+
+  state.inputs = validated.inputs
+  return { state, warnings }
+}
+
+export const buildShareUrl = (state: ShareState): string =>
+  `${window.location.origin}${window.location.pathname}#${encodeShareState(state)}`
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_UNITS,
+  KM_PER_MILE,
+  UnitSettings,
+  fromDisplay,
+  inputsFromDisplay,
+  inputsToDisplay,
+  localizeLabel,
+  metricFromDisplay,
+  metricToDisplay,
+  parameterLabel,
+  toDisplay,
+  validateUnits,
+} from './units'
+import { Measure } from '../model/parameters'
+import { PRESETS } from '../model/presets'
+
+const EUR_KM: UnitSettings = { distance: 'km', currency: 'EUR', exchangeRate: 0.9 }
+
+describe('conversion', () => {
+  it('converts each measure by the rate and the distance factor', () => {
+    expect(toDisplay(100, 'money', EUR_KM)).toBeCloseTo(90, 9)
+    expect(toDisplay(1, 'money-per-distance', EUR_KM)).toBeCloseTo(0.9 / KM_PER_MILE, 9)
+    expect(toDisplay(0.3, 'per-distance', EUR_KM)).toBeCloseTo(0.3 / KM_PER_MILE, 9)
+    expect(toDisplay(100, 'distance', EUR_KM)).toBeCloseTo(160.9344, 9)
+    expect(toDisplay(30, 'speed', EUR_KM)).toBeCloseTo(30 * KM_PER_MILE, 9)
+    expect(toDisplay(40, 'plain', EUR_KM)).toBe(40)
+  })
+
+  it('round-trips every measure', () => {
+    for (const measure of ['plain', 'money', 'money-per-distance', 'per-distance', 'distance', 'speed'] as Measure[]) {
+      expect(fromDisplay(toDisplay(2.5, measure, EUR_KM), measure, EUR_KM)).toBeCloseTo(2.5, 12)
+    }
+    expect(metricFromDisplay('marginPerMile', metricToDisplay('marginPerMile', -1.87, EUR_KM), EUR_KM)).toBeCloseTo(-1.87, 12)
+  })
+
+  it('round-trips a full set of inputs, mode selectors untouched', () => {
+    const inputs = { ...PRESETS['Scaling city'], pricingMode: 'trip' as const }
+    const display = inputsToDisplay(inputs, EUR_KM)
+    expect(display.pricingMode).toBe('trip')
+    expect(display.vehicleCost).toBeCloseTo(153000, 6)
+    const back = inputsFromDisplay(display, EUR_KM)
+    for (const [key, value] of Object.entries(inputs)) {
+      if (typeof value === 'number') expect(back[key as keyof typeof back], key).toBeCloseTo(value, 9)
+      else expect(back[key as keyof typeof back]).toBe(value)
+    }
+  })
+
+  it('ignores the exchange rate for US dollars', () => {
+    expect(toDisplay(100, 'money', { distance: 'mi', currency: 'USD', exchangeRate: 3 })).toBe(100)
+  })
+})
+
+describe('labels', () => {
+  it('swaps the currency symbol and distance words', () => {
+    expect(localizeLabel('Cost / mile ($)', EUR_KM)).toBe('Cost / km (€)')
+    expect(localizeLabel('Avg speed mph', EUR_KM)).toBe('Avg speed km/h')
+    expect(localizeLabel('Cost / mile ($)', DEFAULT_UNITS)).toBe('Cost / mile ($)')
+  })
+
+  it('appends the unit for the user\'s settings', () => {
+    expect(parameterLabel('vehicleCost', EUR_KM)).toBe('Vehicle cost (€)')
+    expect(parameterLabel('avgTripMiles', EUR_KM)).toBe('Avg trip (km)')
+    expect(parameterLabel('avgSpeedMph', EUR_KM)).toBe('Avg speed (km/h)')
+    expect(parameterLabel('kwhPerMile', EUR_KM)).toBe('Energy use (kWh/km)')
+    expect(parameterLabel('fleetSize', EUR_KM)).toBe('Fleet size')
+  })
+})
+
+describe('validateUnits', () => {
+  it('accepts known units with a positive rate', () => {
+    expect(validateUnits(EUR_KM)).toEqual(EUR_KM)
+    expect(validateUnits({ distance: 'mi', currency: 'USD' })).toEqual(DEFAULT_UNITS)
+  })
+
+  it('rejects unknown, inherited or malformed settings', () => {
+    expect(validateUnits({ distance: 'league', currency: 'EUR', exchangeRate: 1 })).toBeNull()
+    expect(validateUnits({ distance: 'km', currency: 'toString', exchangeRate: 1 })).toBeNull()
+    expect(validateUnits({ distance: 'km', currency: 'EUR', exchangeRate: 0 })).toBeNull()
+    expect(validateUnits({ distance: 'km', currency: 'EUR', exchangeRate: '0.9' })).toBeNull()
+    expect(validateUnits(null)).toBeNull()
+  })
+})
@@ -0,0 +1,256 @@
+// Display units: kilometres or miles, and a display currency at a user-entered
+// rate per US dollar. The model itself always works in dollars and miles;
+// values are converted on the way in (typed inputs) and out (labels, KPIs,
+// charts, exports, the state sent to the assistant).
+
+import type { NumericInput, SimulationInputs, SimulationMetrics, VariableCostItem } from '../model/economics'
+import { Measure, PARAMETERS, PARAMETER_KEYS, ParameterSpec, UnitFormat } from '../model/parameters'
+
+export type DistanceUnit = 'mi' | 'km'
+export type Currency = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CNY'
+
+export interface UnitSettings {
+  distance: DistanceUnit
+  currency: Currency
+  // Units of `currency` per US dollar; ignored for USD
+  exchangeRate: number
+}
+
+export const DISTANCE_UNITS: Record<DistanceUnit, string> = {
+  mi: 'Miles',
+  km: 'Kilometres',
+}
+
+export const CURRENCIES: Record<Currency, string> = {
+  USD: 'US dollar',
+  EUR: 'Euro',
+  GBP: 'Pound sterling',
+  JPY: 'Japanese yen',
+  CNY: 'Chinese yuan',
+}
+
+// Starting rate when a currency is picked; the user is expected to enter their own
+export const INDICATIVE_RATES: Record<Currency, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+  CNY: 7.2,
+}
+
+export const DEFAULT_UNITS: UnitSettings = { distance: 'mi', currency: 'USD', exchangeRate: 1 }
+
+export const KM_PER_MILE = 1.609344
+
+const STORAGE_KEY = 'unit_settings'
+
+const rateOf = (units: UnitSettings) => units.currency === 'USD' ? 1 : units.exchangeRate
+
+const distanceFactor = (units: UnitSettings) => units.distance === 'km' ? KM_PER_MILE : 1
+
+// Display value per model value
+const factor = (measure: Measure, units: UnitSettings): number => {
+  switch (measure) {
+    case 'money': return rateOf(units)
+    case 'money-per-distance': return rateOf(units) / distanceFactor(units)
+    case 'per-distance': return 1 / distanceFactor(units)
+    case 'distance':
+    case 'speed': return distanceFactor(units)
+    case 'plain': return 1
+  }
+}
+
+export const isDefaultUnits = (units: UnitSettings) => units.distance === 'mi' && units.currency === 'USD'
+
+export const toDisplay = (value: number, measure: Measure, units: UnitSettings) => value * factor(measure, units)
+
+export const fromDisplay = (value: number, measure: Measure, units: UnitSettings) => value / factor(measure, units)
+
+export const METRIC_MEASURES: Record<keyof SimulationMetrics, Measure> = {
+  vehicleLifetimeDays: 'plain',
+  vehicleCostPerDay: 'money',
+  teleopsAndOpsPerDay: 'money',
+  fixedDailyCost: 'money',
+  utilizationDecimal: 'plain',
+  deadheadDecimal: 'plain',
+  serviceMilesCapacity: 'distance',
+  milesPerDay: 'distance',
+  paidMilesPerDay: 'distance',
+  revenuePerPaidMile: 'money-per-distance',
+  revenuePerTrip: 'money',
+  tripsPerVehiclePerDay: 'plain',
+  vehicleCostPerPaidMile: 'money-per-distance',
+  teleopsCostPerPaidMile: 'money-per-distance',
+  variableCostPerPaidMile: 'money-per-distance',
+  totalCostPerMile: 'money-per-distance',
+  marginPerMile: 'money-per-distance',
+  breakEvenUtilizationPercent: 'plain',
+  fleetPaidMilesPerDay: 'distance',
+  fleetRevenuePerDay: 'money',
+  fleetVariableCostPerDay: 'money',
+  fleetFixedCostPerDay: 'money',
+  fleetContributionPerDay: 'money',
+  fleetProfitPerDay: 'money',
+  fleetPaidMilesPerYear: 'distance',
+  fleetRevenuePerYear: 'money',
+  fleetVariableCostPerYear: 'money',
+  fleetFixedCostPerYear: 'money',
+  fleetContributionPerYear: 'money',
+  fleetProfitPerYear: 'money',
+}
+
+export const metricToDisplay = (metric: keyof SimulationMetrics, value: number, units: UnitSettings) =>
+  toDisplay(value, METRIC_MEASURES[metric], units)
+
+export const metricFromDisplay = (metric: keyof SimulationMetrics, value: number, units: UnitSettings) =>
+  fromDisplay(value, METRIC_MEASURES[metric], units)
+
+// Null stays null (break-even utilization when there is none)
+export const metricsToDisplay = (metrics: SimulationMetrics, units: UnitSettings): SimulationMetrics => {
+  const converted = { ...metrics }
+  for (const key of Object.keys(METRIC_MEASURES) as (keyof SimulationMetrics)[]) {
+    const value = metrics[key]
+    if (typeof value === 'number') (converted[key] as number) = metricToDisplay(key, value, units)
+  }
+  return converted
+}
+
+// Itemized variable cost is per paid mile, like the metric it sums to
+export const variableCostItemsToDisplay = (items: Record<VariableCostItem, number>, units: UnitSettings) =>
+  Object.fromEntries(
+    Object.entries(items).map(([item, cost]) => [item, toDisplay(cost, 'money-per-distance', units)])
+  ) as Record<VariableCostItem, number>
+
+export const inputToDisplay = (key: NumericInput, value: number, units: UnitSettings) =>
+  toDisplay(value, PARAMETERS[key].measure, units)
+
+// Rounded to drop float noise, so a bound converted there and back stays in range
+export const inputFromDisplay = (key: NumericInput, value: number, units: UnitSettings) =>
+  Number(fromDisplay(value, PARAMETERS[key].measure, units).toPrecision(12))
+
+// Numeric inputs converted; the mode selectors pass through
+export const inputsToDisplay = (inputs: SimulationInputs, units: UnitSettings): SimulationInputs => {
+  const converted = { ...inputs }
+  for (const key of PARAMETER_KEYS) converted[key] = inputToDisplay(key, inputs[key], units)
+  return converted
+}
+
+export const inputsFromDisplay = <T extends Partial<SimulationInputs>>(inputs: T, units: UnitSettings): T => {
+  const converted = { ...inputs }
+  for (const key of PARAMETER_KEYS) {
+    const value = inputs[key]
+    if (typeof value === 'number') (converted as Partial<SimulationInputs>)[key] = inputFromDisplay(key, value, units)
+  }
+  return converted
+}
+
+const formatCache = new Map<string, UnitFormat>()
+
+// Formatters for the user's locale (the browser's; the runtime default on the server)
+export const unitFormat = (units: UnitSettings): UnitFormat => {
+  const cacheKey = `${units.currency}|${units.distance}`
+  const cached = formatCache.get(cacheKey)
+  if (cached) return cached
+
+  // Yen have no minor unit; other currencies keep the decimals asked for
+  const maxMoneyDecimals = units.currency === 'JPY' ? 0 : 2
+  const money = (decimals: number) => new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: units.currency,
+    minimumFractionDigits: Math.min(decimals, maxMoneyDecimals),
+    maximumFractionDigits: Math.min(decimals, maxMoneyDecimals),
+  })
+  const moneyFormats = [money(0), money(1), money(2)]
+  const compact = new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: units.currency,
+    notation: 'compact',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1,
+  })
+  const numbers = [0, 1, 2, 3, 4].map(decimals => new Intl.NumberFormat(undefined, { maximumFractionDigits: decimals }))
+  const compactNumber = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 })
+
+  const format: UnitFormat = {
+    money: (value, decimals = 2) => moneyFormats[Math.max(0, Math.min(2, decimals))].format(value),
+    compactMoney: (value) => compact.format(value),
+    number: (value, maxDecimals = 2) => numbers[Math.max(0, Math.min(4, maxDecimals))].format(value),
+    compactNumber: (value) => compactNumber.format(value),
+    distance: units.distance,
+    speed: units.distance === 'km' ? 'km/h' : 'mph',
+  }
+  formatCache.set(cacheKey, format)
+  return format
+}
+
+// Symbol the user's locale shows for the currency, e.g. "€" or "CN¥"
+export const currencySymbol = (units: UnitSettings): string =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: units.currency })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value ?? units.currency
+
+// Format a model value (dollars, miles) in the user's units
+export const formatParameter = (spec: ParameterSpec, value: number, units: UnitSettings) =>
+  spec.format(toDisplay(value, spec.measure, units), unitFormat(units))
+
+export const formatMetric = (metric: keyof SimulationMetrics, value: number, units: UnitSettings, decimals = 2) => {
+  const display = metricToDisplay(metric, value, units)
+  const f = unitFormat(units)
+  switch (METRIC_MEASURES[metric]) {
+    case 'money':
+    case 'money-per-distance': return f.money(display, decimals)
+    case 'distance': return `${f.number(display, decimals)} ${f.distance}`
+    default: return f.number(display, decimals)
+  }
+}
+
+// Rewrites a US-unit label for display: "($)" takes the currency symbol,
+// "mile(s)" becomes "km" and "mph" becomes "km/h"
+export const localizeLabel = (label: string, units: UnitSettings): string => {
+  let localized = label.replace(/\(\$\)/g, `(${currencySymbol(units)})`)
+  if (units.distance === 'km') {
+    localized = localized
+      .replace(/\b[Mm]iles?\b/g, 'km')
+      .replace(/\bmph\b/g, 'km/h')
+  }
+  return localized
+}
+
+// Axis and select label for an input, e.g. "Vehicle cost (€)" or "Avg trip (km)"
+export const parameterLabel = (key: NumericInput, units: UnitSettings): string => {
+  const spec = PARAMETERS[key]
+  const label = localizeLabel(spec.label, units)
+  const unit = spec.unit === 'mi' ? units.distance
+    : spec.unit === 'mph' ? unitFormat(units).speed
+    : spec.unit === 'mpg' ? (units.distance === 'km' ? 'km/gal' : 'mpg')
+    : spec.unit.replace('$', currencySymbol(units)).replace('/mi', `/${units.distance}`)
+  return unit ? `${label} (${unit})` : label
+}
+
+export const validateUnits = (raw: unknown): UnitSettings | null => {
+  if (!raw || typeof raw !== 'object') return null
+  const { distance, currency, exchangeRate } = raw as Record<string, unknown>
+  if (typeof distance !== 'string' || !Object.hasOwn(DISTANCE_UNITS, distance)) return null
+  if (typeof currency !== 'string' || !Object.hasOwn(CURRENCIES, currency)) return null
+  const rate = currency === 'USD' ? 1 : exchangeRate
+  if (typeof rate !== 'number' || !isFinite(rate) || rate <= 0) return null
+  return { distance: distance as DistanceUnit, currency: currency as Currency, exchangeRate: rate }
+}
+
+export const loadUnitSettings = (): UnitSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return (raw && validateUnits(JSON.parse(raw))) || DEFAULT_UNITS
+  } catch (error) {
+    console.warn('Could not read unit settings:', error)
+    return DEFAULT_UNITS
+  }
+}
+
+export const saveUnitSettings = (units: UnitSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(units))
+  } catch (error) {
+    console.warn('Could not save unit settings:', error)
+  }
+}
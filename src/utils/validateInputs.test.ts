@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { validateInputs } from './validateInputs'
+import { DEFAULT_INPUTS } from '../model/presets'
+
+describe('validateInputs', () => {
+  it('clamps out-of-range numbers and reads numeric strings', () => {
+    const { inputs, warnings } = validateInputs({ fleetSize: 10, vehicleCost: '120000' }, DEFAULT_INPUTS)
+    expect(inputs.fleetSize).toBe(500)
+    expect(inputs.vehicleCost).toBe(120000)
+    expect(warnings).toEqual(['Fleet size: 10 is outside 500–6000000; clamped to 500.'])
+  })
+
+  it('keeps the base value for non-numbers and unknown options', () => {
+    const { inputs, warnings } = validateInputs({ fleetSize: 'lots', pricingMode: 'auction' }, DEFAULT_INPUTS)
+    expect(inputs.fleetSize).toBe(DEFAULT_INPUTS.fleetSize)
+    expect(inputs.pricingMode).toBe(DEFAULT_INPUTS.pricingMode)
+    expect(warnings).toHaveLength(2)
+  })
+
+  it('drops unknown and prototype keys instead of throwing', () => {
+    const values = JSON.parse('{"foo": 1, "constructor": 2, "__proto__": 3}')
+    const { inputs, warnings } = validateInputs(values, DEFAULT_INPUTS)
+    expect(inputs).toEqual(DEFAULT_INPUTS)
+    expect(warnings).toEqual([
+      'Unknown field "foo" ignored.',
+      'Unknown field "constructor" ignored.',
+      'Unknown field "__proto__" ignored.',
+    ])
+  })
+})
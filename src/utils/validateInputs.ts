@@ -0,0 +1,67 @@
+// Checks untrusted input values (share links, imported files) against SimulationInputs
+// and the slider ranges. Bad values never throw: they are clamped or dropped, and
+// each adjustment is reported as a human-readable warning. Unknown keys are dropped too.
+
+import {
+  SimulationInputs,
+  NumericInput,
+  NUMERIC_INPUTS,
+  DEPRECIATION_METHODS,
+  PRICING_MODES,
+  MILEAGE_MODELS,
+  VARIABLE_COST_MODES,
+  ENERGY_SOURCES,
+} from '../model/economics'
+import { SLIDER_RANGES } from '../model/parameters'
+
+// Mode selectors and the values they accept
+const MODE_FIELDS: Partial<Record<keyof SimulationInputs, { label: string; values: Record<string, string> }>> = {
+  pricingMode: { label: 'Pricing', values: PRICING_MODES },
+  mileageModel: { label: 'Daily miles', values: MILEAGE_MODELS },
+  depreciationMethod: { label: 'Depreciation', values: DEPRECIATION_METHODS },
+  variableCostMode: { label: 'Variable cost', values: VARIABLE_COST_MODES },
+  energySource: { label: 'Energy', values: ENERGY_SOURCES },
+}
+
+export const isInputField = (key: string): key is keyof SimulationInputs =>
+  Object.hasOwn(NUMERIC_INPUTS, key) || Object.hasOwn(MODE_FIELDS, key)
+
+// Fields absent from `values` keep their value from `base`
+export const validateInputs = (
+  values: Partial<Record<keyof SimulationInputs, unknown>>,
+  base: SimulationInputs
+): { inputs: SimulationInputs; warnings: string[] } => {
+  const inputs: SimulationInputs = { ...base }
+  const warnings: string[] = []
+
+  for (const field of Object.keys(values) as (keyof SimulationInputs)[]) {
+    if (!isInputField(field)) {
+      warnings.push(`Unknown field "${field}" ignored.`)
+      continue
+    }
+    const raw = values[field]
+    if (raw === undefined || raw === null) continue
+
+    const mode = Object.hasOwn(MODE_FIELDS, field) ? MODE_FIELDS[field] : undefined
+    if (mode) {
+      if (typeof raw === 'string' && Object.hasOwn(mode.values, raw)) Object.assign(inputs, { [field]: raw })
+      else warnings.push(`${mode.label}: unknown option "${raw}" ignored.`)
+      continue
+    }
+
+    const numeric = field as NumericInput
+    const value = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN
+    if (!isFinite(value)) {
+      warnings.push(`${NUMERIC_INPUTS[numeric]}: "${raw}" is not a number; kept ${inputs[numeric]}.`)
+      continue
+    }
+    const { min, max } = SLIDER_RANGES[numeric]
+    const clamped = Math.min(max, Math.max(min, value))
+    if (clamped !== value) {
+      warnings.push(`${NUMERIC_INPUTS[numeric]}: ${value} is outside ${min}–${max}; clamped to ${clamped}.`)
+    }
+    inputs[numeric] = clamped
+  }
+
+  return { inputs, warnings }
+}
@@ -18,3 +18,18 @@ ON chat_events (session_id);
 
 -- Add RLS (Row Level Security) policies if needed
 -- ALTER TABLE chat_events ENABLE ROW LEVEL SECURITY;
+
+-- Create team_presets table for the shared preset library
+CREATE TABLE IF NOT EXISTS team_presets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  author TEXT NOT NULL,
+  source_notes TEXT NOT NULL DEFAULT '',
+  inputs JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for listing newest first
+CREATE INDEX IF NOT EXISTS idx_team_presets_created
+ON team_presets (created_at DESC);